@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { RotateCcw } from 'lucide-react';
+import { AlgorithmDefinition, AlgorithmOptionSchema } from '@/utils/backgroundRemoval';
+import { DEFAULT_POST_PROCESSING_OPTIONS, postProcessingSchema } from '@/utils/postProcessing';
+
+interface AlgorithmOptionsPanelProps {
+  definition: AlgorithmDefinition;
+  options: Record<string, unknown>;
+  onChange: (options: Record<string, unknown>) => void;
+  disabled?: boolean;
+}
+
+// Controls generated from the algorithm's optionsSchema, followed by the shared post-processing stages
+const AlgorithmOptionsPanel = ({ definition, options, onChange, disabled }: AlgorithmOptionsPanelProps) => {
+  // Slider values while dragging; the change is only applied when the thumb is released
+  const [draft, setDraft] = useState(options);
+
+  useEffect(() => {
+    setDraft(options);
+  }, [options]);
+
+  const defaults: Record<string, unknown> = { ...DEFAULT_POST_PROCESSING_OPTIONS, ...definition.defaultOptions };
+  const schema = [...definition.optionsSchema, ...postProcessingSchema];
+  const isDefault = schema.every(option => options[option.key] === defaults[option.key]);
+
+  const renderOption = (option: AlgorithmOptionSchema) => {
+    const id = `${definition.id}-${option.key}`;
+
+    if (option.type === 'boolean') {
+      return (
+        <div key={option.key} className="flex items-center justify-between gap-2">
+          <div>
+            <Label htmlFor={id} className="text-sm">{option.label}</Label>
+            {option.description && <p className="text-xs text-muted-foreground">{option.description}</p>}
+          </div>
+          <Switch
+            id={id}
+            checked={Boolean(draft[option.key])}
+            onCheckedChange={(checked) => onChange({ ...options, [option.key]: checked })}
+            disabled={disabled}
+          />
+        </div>
+      );
+    }
+
+    const value = Number(draft[option.key] ?? option.min);
+
+    return (
+      <div key={option.key} className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={id} className="text-sm">{option.label}</Label>
+          <span className="text-sm text-muted-foreground tabular-nums">{value}</span>
+        </div>
+        <Slider
+          id={id}
+          min={option.min}
+          max={option.max}
+          step={option.step}
+          value={[value]}
+          onValueChange={([next]) => setDraft(prev => ({ ...prev, [option.key]: next }))}
+          onValueCommit={([next]) => onChange({ ...options, [option.key]: next })}
+          disabled={disabled}
+        />
+        {option.description && <p className="text-xs text-muted-foreground">{option.description}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 p-3 border rounded-lg bg-gray-50">
+      {definition.optionsSchema.map(renderOption)}
+
+      <div className="space-y-4 pt-3 border-t">
+        <p className="text-sm font-medium">Post-processing</p>
+        {postProcessingSchema.map(renderOption)}
+      </div>
+
+      <Button
+        onClick={() => onChange({ ...defaults })}
+        variant="ghost"
+        size="sm"
+        className="w-full"
+        disabled={disabled || isDefault}
+      >
+        <RotateCcw className="h-4 w-4 mr-2" />
+        Reset to defaults
+      </Button>
+    </div>
+  );
+};
+
+export default AlgorithmOptionsPanel;
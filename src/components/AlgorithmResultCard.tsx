@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, Brush, ChevronDown, Download, Loader2, SlidersHorizontal, Star } from 'lucide-react';
+import AlgorithmOptionsPanel from '@/components/AlgorithmOptionsPanel';
+import { DEFAULT_POST_PROCESSING_OPTIONS } from '@/utils/postProcessing';
+import { qualityMetricInfo, QualityMetrics, QualityScore } from '@/utils/qualityScoring';
+import { getAlgorithm, AlgorithmResult, AlgorithmRunState, AlgorithmRunStatus, BackgroundRemovalAlgorithm } from '@/utils/backgroundRemoval';
+
+interface AlgorithmResultCardProps {
+  algorithm: BackgroundRemovalAlgorithm;
+  status?: AlgorithmRunStatus;
+  result?: AlgorithmResult;
+  onDownload: (algorithm: BackgroundRemovalAlgorithm, blob: Blob) => void;
+  options?: Record<string, unknown>;
+  // Called with the full option set; the card itself does not re-run anything
+  onOptionsChange?: (algorithm: BackgroundRemovalAlgorithm, options: Record<string, unknown>) => void;
+  optionsDisabled?: boolean;
+  onEdit?: (algorithm: BackgroundRemovalAlgorithm) => void;
+  // Highest quality score among the results
+  recommended?: boolean;
+}
+
+const stateLabels: Record<AlgorithmRunState, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  skipped: 'Not applicable'
+};
+
+const QualityBreakdown = ({ quality }: { quality: QualityScore }) => (
+  <div className="space-y-3">
+    <p className="text-sm font-medium">Quality score {quality.overall}/100</p>
+    {(Object.keys(qualityMetricInfo) as (keyof QualityMetrics)[]).map(key => (
+      <div key={key} className="space-y-1">
+        <div className="flex items-center justify-between text-xs">
+          <span>{qualityMetricInfo[key].label}</span>
+          <span className="tabular-nums text-muted-foreground">{Math.round(quality.metrics[key] * 100)}</span>
+        </div>
+        <Progress value={quality.metrics[key] * 100} className="h-1.5" />
+        <p className="text-xs text-muted-foreground">{qualityMetricInfo[key].description}</p>
+      </div>
+    ))}
+  </div>
+);
+
+const formatElapsed = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const useElapsed = (status?: AlgorithmRunStatus) => {
+  const [now, setNow] = useState(() => performance.now());
+  const isRunning = status?.state === 'running';
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(() => setNow(performance.now()), 100);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  if (status?.elapsedMs !== undefined) return status.elapsedMs;
+  if (isRunning && status.startedAt !== undefined) return Math.max(0, now - status.startedAt);
+  return undefined;
+};
+
+const AlgorithmResultCard = ({ algorithm, status, result, onDownload, options, onOptionsChange, optionsDisabled, onEdit, recommended }: AlgorithmResultCardProps) => {
+  const info = getAlgorithm(algorithm);
+  const name = info?.name ?? algorithm;
+  const elapsed = useElapsed(status);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const hasSettings = Boolean(info && onOptionsChange);
+  const mergedOptions = useMemo(
+    () => ({ ...DEFAULT_POST_PROCESSING_OPTIONS, ...info?.defaultOptions, ...options }),
+    [info, options]
+  );
+
+  return (
+    <div className={`space-y-4 ${recommended ? 'rounded-lg ring-2 ring-amber-400 ring-offset-4' : ''}`}>
+      <div className="text-center">
+        <h3 className="font-semibold text-lg">{name}</h3>
+        <p className="text-sm text-muted-foreground">{info?.description}</p>
+        <div className="flex flex-wrap items-center justify-center gap-2 mt-2">
+          {status && (
+            <Badge variant={status.state === 'failed' ? 'destructive' : status.state === 'done' ? 'default' : 'secondary'}>
+              {status.state === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              {stateLabels[status.state]}
+              {elapsed !== undefined && ` · ${formatElapsed(elapsed)}`}
+            </Badge>
+          )}
+          {result?.backend && (
+            <Badge variant="outline">Ran on {result.backend}</Badge>
+          )}
+          {result?.unedited && (
+            <Badge variant="outline">Edited</Badge>
+          )}
+          {result?.quality && (
+            <HoverCard openDelay={150}>
+              <HoverCardTrigger asChild>
+                <Badge variant="outline" className="cursor-help">Score {result.quality.overall}</Badge>
+              </HoverCardTrigger>
+              <HoverCardContent className="w-72">
+                <QualityBreakdown quality={result.quality} />
+              </HoverCardContent>
+            </HoverCard>
+          )}
+          {recommended && (
+            <Badge className="bg-amber-500 hover:bg-amber-500">
+              <Star className="h-3 w-3 mr-1" />
+              Recommended
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {result ? (
+        <div className="aspect-square bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg overflow-hidden relative">
+          <div className="absolute inset-0 opacity-20" style={{
+            backgroundImage: `url("data:image/svg+xml,%3csvg width='20' height='20' viewBox='0 0 20 20' xmlns='http://www.w3.org/2000/svg'%3e%3cg fill='%23000' fill-opacity='0.1' fill-rule='evenodd'%3e%3crect width='10' height='10'/%3e%3crect x='10' y='10' width='10' height='10'/%3e%3c/g%3e%3c/svg%3e")`,
+          }} />
+          <img
+            src={result.result}
+            alt={`${name} result`}
+            className="w-full h-full object-contain relative z-10"
+          />
+        </div>
+      ) : status?.state === 'failed' ? (
+        <div className="aspect-square rounded-lg border border-destructive/40 bg-destructive/5 flex flex-col items-center justify-center gap-2 p-4 text-center">
+          <AlertCircle className="h-8 w-8 text-destructive" />
+          <p className="text-sm text-destructive break-words">{status.error || 'Unknown error'}</p>
+        </div>
+      ) : status?.state === 'skipped' ? (
+        <div className="aspect-square rounded-lg border border-dashed flex items-center justify-center p-4 text-center">
+          <p className="text-sm text-muted-foreground">This algorithm does not apply to this image</p>
+        </div>
+      ) : (
+        <Skeleton className="aspect-square rounded-lg w-full" />
+      )}
+
+      {hasSettings && info && (
+        <Collapsible open={settingsOpen} onOpenChange={setSettingsOpen}>
+          <CollapsibleTrigger asChild>
+            <Button variant="outline" size="sm" className="w-full">
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Settings
+              <ChevronDown className={`h-4 w-4 ml-auto transition-transform ${settingsOpen ? 'rotate-180' : ''}`} />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2">
+            <AlgorithmOptionsPanel
+              definition={info}
+              options={mergedOptions}
+              onChange={(next) => onOptionsChange?.(algorithm, next)}
+              disabled={optionsDisabled}
+            />
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+
+      {onEdit && (
+        <Button
+          onClick={() => onEdit(algorithm)}
+          disabled={!result || optionsDisabled}
+          variant="outline"
+          size="sm"
+          className="w-full"
+        >
+          <Brush className="h-4 w-4 mr-2" />
+          Refine with Brush
+        </Button>
+      )}
+
+      <Button
+        onClick={() => result && onDownload(algorithm, result.blob)}
+        disabled={!result}
+        className="w-full bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700"
+        size="sm"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        Download {name}
+      </Button>
+    </div>
+  );
+};
+
+export default AlgorithmResultCard;
@@ -1,16 +1,28 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { Skeleton } from '@/components/ui/skeleton';
-import { Download, Image as ImageIcon, Loader2, Upload, Link, Search, Grid, FileImage, Copy } from 'lucide-react';
-import { processImageWithAllAlgorithms, loadImageFromUrl, algorithmInfo, BackgroundRemovalAlgorithm, loadImage } from '@/utils/backgroundRemoval';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Image as ImageIcon, Loader2, Upload, Link, Search, Grid, FileImage, Copy, X, FileArchive } from 'lucide-react';
+import { processImageWithAllAlgorithms, runAlgorithm, applyEditsToResult, scoreAlgorithmResult, getRecommendedResult, loadImageFromUrl, getAlgorithm, getRegisteredAlgorithms, AlgorithmResult, AlgorithmRunStatus, BackgroundRemovalAlgorithm, DEFAULT_CONCURRENCY, loadImage, detectFakeTransparency } from '@/utils/backgroundRemoval';
 import { convertSvgToPng, isSvgImage } from '@/utils/svgToPng';
+import { isAbortError } from '@/utils/abort';
+import { RefinementMask, isRefinementMaskEmpty } from '@/utils/refinementMask';
+import { FloodSeed } from '@/utils/floodSeeds';
+import { createResultsArchive, downloadBlob, getFileStem, getResultFilename, ExportSource } from '@/utils/resultExport';
 import { useToast } from '@/hooks/use-toast';
+import ModelStatusPanel from '@/components/ModelStatusPanel';
+import AlgorithmResultCard from '@/components/AlgorithmResultCard';
+import RefinementEditor from '@/components/RefinementEditor';
+import EnsembleCard from '@/components/EnsembleCard';
+import SeedPicker from '@/components/SeedPicker';
+import BatchQueueCard from '@/components/BatchQueueCard';
 
 interface FoundImage {
   url: string;
@@ -19,23 +31,39 @@ interface FoundImage {
   svgContent?: string;
 }
 
-type AlgorithmType = 'icon' | 'ai';
+const isSvgFoundImage = (image: FoundImage) => image.type !== 'png';
 
 const BackgroundRemover = () => {
   const [inputUrl, setInputUrl] = useState('');
+  // Page the found images came from, recorded in export manifests
+  const [pageUrl, setPageUrl] = useState('');
   const [foundImages, setFoundImages] = useState<FoundImage[]>([]);
+  // Found images that look like they have a transparency checkerboard baked in
+  const [checkerboardFlags, setCheckerboardFlags] = useState<Record<string, boolean>>({});
   const [selectedImageUrl, setSelectedImageUrl] = useState('');
+  // Images ticked for the batch queue, separate from the one picked for the comparison
+  const [batchSelection, setBatchSelection] = useState<string[]>([]);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [originalImageBlob, setOriginalImageBlob] = useState<Blob | null>(null);
-  const [processedResults, setProcessedResults] = useState<{
-    algorithm: BackgroundRemovalAlgorithm;
-    result: string;
-    blob: Blob;
-  }[]>([]);
+  const [processedResults, setProcessedResults] = useState<AlgorithmResult[]>([]);
+  const [algorithmStatuses, setAlgorithmStatuses] = useState<Record<string, AlgorithmRunStatus>>({});
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
   const [isSearching, setIsSearching] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [convertSvgToPngEnabled, setConvertSvgToPngEnabled] = useState(true);
+  const [algorithmOptions, setAlgorithmOptions] = useState<Record<string, Record<string, unknown>>>({});
+  const [floodSeeds, setFloodSeeds] = useState<FloodSeed[]>([]);
+  // Manual brush edits per algorithm, re-applied whenever that algorithm runs again
+  const [refinementMasks, setRefinementMasks] = useState<Record<string, RefinementMask>>({});
+  const [editingAlgorithm, setEditingAlgorithm] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const processingController = useRef<AbortController | null>(null);
+  const checkerboardScanController = useRef<AbortController | null>(null);
+  // Settings changes re-run a single algorithm, one controller per algorithm
+  const rerunControllers = useRef(new Map<string, AbortController>());
+  // Image the last run processed, after any SVG conversion, so settings changes can re-run on it
+  const sourceImage = useRef<HTMLImageElement | null>(null);
   const { toast } = useToast();
 
   const normalizeUrl = (url: string) => {
@@ -304,6 +332,27 @@ const BackgroundRemover = () => {
     throw new Error(`Failed to fetch images from the provided URL. All proxy services failed. Last error: ${lastError?.message || 'Unknown error'}`);
   };
 
+  // Checks the raster images one at a time in the background, so the list is usable right away
+  const scanForCheckerboards = async (images: FoundImage[]) => {
+    checkerboardScanController.current?.abort();
+    const controller = new AbortController();
+    checkerboardScanController.current = controller;
+    setCheckerboardFlags({});
+
+    for (const image of images.filter(({ type }) => type === 'png')) {
+      try {
+        const detected = await detectFakeTransparency(image.url, controller.signal);
+        if (detected) {
+          console.log(`Fake transparency detected in ${image.filename}`);
+          setCheckerboardFlags(prev => ({ ...prev, [image.url]: true }));
+        }
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.warn(`Could not check ${image.filename} for a checkerboard:`, error);
+      }
+    }
+  };
+
   const handleSearchImages = async () => {
     if (!inputUrl.trim()) {
       toast({
@@ -338,6 +387,9 @@ const BackgroundRemover = () => {
         });
       } else {
         setFoundImages(images);
+        setPageUrl(normalizedUrl);
+        setBatchSelection([]);
+        scanForCheckerboards(images);
         toast({
           title: "Images Found!",
           description: `Found ${images.length} image(s) available for processing`,
@@ -389,15 +441,26 @@ const BackgroundRemover = () => {
       return;
     }
 
+    processingController.current?.abort();
+    abortReruns();
+    sourceImage.current = null;
+    const controller = new AbortController();
+    const { signal } = controller;
+    processingController.current = controller;
+
     try {
       setIsProcessing(true);
       setProgress(10);
+      processedResults.forEach(result => URL.revokeObjectURL(result.result));
+      setProcessedResults([]);
+      setAlgorithmStatuses({});
+      setRefinementMasks({});
       
       console.log('Loading image from URL:', selectedImageUrl);
-      let imageElement = await loadImageFromUrl(selectedImageUrl);
+      let imageElement = await loadImageFromUrl(selectedImageUrl, signal);
       
       // Store original image as blob for download
-      const response = await fetch(selectedImageUrl);
+      const response = await fetch(selectedImageUrl, { signal });
       const originalBlob = await response.blob();
       setOriginalImageBlob(originalBlob);
       
@@ -407,8 +470,8 @@ const BackgroundRemover = () => {
         setProgress(20);
         
         try {
-          const pngBlob = await convertSvgToPng(imageElement, 2);
-          imageElement = await loadImage(pngBlob);
+          const pngBlob = await convertSvgToPng(imageElement, 2, signal);
+          imageElement = await loadImage(pngBlob, signal);
           console.log('SVG successfully converted to PNG');
           
           toast({
@@ -416,6 +479,7 @@ const BackgroundRemover = () => {
             description: "SVG has been converted to PNG for better processing",
           });
         } catch (conversionError) {
+          if (isAbortError(conversionError)) throw conversionError;
           console.warn('SVG conversion failed, proceeding with original:', conversionError);
           toast({
             title: "Conversion Warning",
@@ -425,21 +489,56 @@ const BackgroundRemover = () => {
         }
       }
       
+      sourceImage.current = imageElement;
       setOriginalImage(selectedImageUrl);
       setProgress(30);
 
       console.log('Processing image with all algorithms...');
-      const results = await processImageWithAllAlgorithms(imageElement);
-      setProgress(90);
-
-      setProcessedResults(results);
+      const total = getRegisteredAlgorithms().length;
+      const finished = new Set<string>();
+      const skipped = new Set<string>();
+      const results = await processImageWithAllAlgorithms(imageElement, {
+        concurrency,
+        onStatusChange: (status) => {
+          setAlgorithmStatuses(prev => ({ ...prev, [status.algorithm]: status }));
+          
+          if (status.state === 'skipped') skipped.add(status.algorithm);
+          if (status.state === 'done' || status.state === 'failed' || status.state === 'skipped') {
+            finished.add(status.algorithm);
+            setProgress(30 + Math.round((finished.size / total) * 60));
+          }
+        },
+        onResult: (result) => {
+          setProcessedResults(prev => [...prev, result]);
+        },
+        algorithmOptions: Object.fromEntries(
+          getRegisteredAlgorithms().map(({ id }) => [id, withSeeds(id, algorithmOptions[id] ?? {}, floodSeeds)])
+        ),
+        signal
+      });
       setProgress(100);
 
+      const failedCount = total - skipped.size - results.length;
       toast({
         title: "Success!",
-        description: `Processed with ${results.length} algorithms successfully`,
+        description: failedCount > 0
+          ? `Processed with ${results.length} algorithms successfully, ${failedCount} failed`
+          : `Processed with ${results.length} algorithms successfully`,
       });
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Processing cancelled');
+        // A newer run or Start Over has already reset the state
+        if (processingController.current !== controller) return;
+        setProcessedResults([]);
+        setAlgorithmStatuses({});
+        toast({
+          title: "Cancelled",
+          description: "Processing was cancelled",
+        });
+        return;
+      }
+      
       console.error('Error processing image:', error);
       toast({
         title: "Error",
@@ -447,35 +546,209 @@ const BackgroundRemover = () => {
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
-      setProgress(0);
+      if (processingController.current === controller) {
+        processingController.current = null;
+        setIsProcessing(false);
+        setProgress(0);
+      }
     }
   };
 
-  const handleDownload = (algorithm: BackgroundRemovalAlgorithm, blob: Blob) => {
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `transparent-icon-${algorithm}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleCancelProcessing = () => {
+    processingController.current?.abort();
+  };
+
+  const abortReruns = () => {
+    rerunControllers.current.forEach(controller => controller.abort());
+    rerunControllers.current.clear();
+  };
+
+  const replaceResult = (algorithm: BackgroundRemovalAlgorithm, result?: AlgorithmResult) => {
+    setProcessedResults(prev => {
+      prev.filter(existing => existing.algorithm === algorithm).forEach(existing => URL.revokeObjectURL(existing.result));
+      const others = prev.filter(existing => existing.algorithm !== algorithm);
+      return result ? [...others, result] : others;
+    });
+  };
+
+  const handleRerunAlgorithm = async (algorithm: BackgroundRemovalAlgorithm, options: Record<string, unknown>) => {
+    const imageElement = sourceImage.current;
+    if (!imageElement) return;
+
+    // A newer settings change supersedes a re-run that is still going
+    rerunControllers.current.get(algorithm)?.abort();
+    const controller = new AbortController();
+    rerunControllers.current.set(algorithm, controller);
+
+    const startedAt = performance.now();
+    setAlgorithmStatuses(prev => ({ ...prev, [algorithm]: { algorithm, state: 'running', startedAt } }));
+
+    try {
+      console.log(`Re-running ${algorithm} algorithm with options:`, options);
+      let result = await runAlgorithm(imageElement, algorithm, options, controller.signal);
+
+      const mask = refinementMasks[algorithm];
+      if (mask) {
+        const unedited = result;
+        try {
+          result = await scoreAlgorithmResult(imageElement, await applyEditsToResult(unedited, mask, controller.signal), controller.signal);
+        } finally {
+          URL.revokeObjectURL(unedited.result);
+        }
+      }
+
+      if (controller.signal.aborted) {
+        URL.revokeObjectURL(result.result);
+        return;
+      }
+
+      replaceResult(algorithm, result);
+      setAlgorithmStatuses(prev => ({
+        ...prev,
+        [algorithm]: { algorithm, state: 'done', startedAt, elapsedMs: performance.now() - startedAt }
+      }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+
+      console.error(`Error re-running ${algorithm} algorithm:`, error);
+      replaceResult(algorithm);
+      setAlgorithmStatuses(prev => ({
+        ...prev,
+        [algorithm]: {
+          algorithm,
+          state: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          startedAt,
+          elapsedMs: performance.now() - startedAt
+        }
+      }));
+    } finally {
+      if (rerunControllers.current.get(algorithm) === controller) {
+        rerunControllers.current.delete(algorithm);
+      }
+    }
+  };
+
+  const handleSaveEdits = async (algorithm: BackgroundRemovalAlgorithm, mask: RefinementMask) => {
+    const result = processedResults.find(existing => existing.algorithm === algorithm);
+    const imageElement = sourceImage.current;
+    if (!result || !imageElement) return;
+
+    if (isRefinementMaskEmpty(mask)) {
+      setRefinementMasks(({ [algorithm]: _removed, ...rest }) => rest);
+      if (result.unedited) {
+        replaceResult(algorithm, await scoreAlgorithmResult(imageElement, {
+          ...result,
+          result: URL.createObjectURL(result.unedited),
+          blob: result.unedited,
+          unedited: undefined
+        }));
+      }
+      return;
+    }
+
+    setRefinementMasks(prev => ({ ...prev, [algorithm]: mask }));
+
+    try {
+      replaceResult(algorithm, await scoreAlgorithmResult(imageElement, await applyEditsToResult(result, mask)));
+    } catch (error) {
+      console.error(`Error applying edits to ${algorithm} result:`, error);
+      toast({
+        title: "Error",
+        description: "Failed to apply your edits",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Seeds are shared by every algorithm that supports them rather than stored per algorithm
+  const withSeeds = (algorithm: BackgroundRemovalAlgorithm, options: Record<string, unknown>, seeds: FloodSeed[]) => {
+    return getAlgorithm(algorithm)?.supportsSeeds && seeds.length > 0 ? { ...options, seeds } : options;
+  };
+
+  const handleOptionsChange = (algorithm: BackgroundRemovalAlgorithm, options: Record<string, unknown>) => {
+    setAlgorithmOptions(prev => ({ ...prev, [algorithm]: options }));
+    handleRerunAlgorithm(algorithm, withSeeds(algorithm, options, floodSeeds));
+  };
+
+  const handleSeedsChange = (seeds: FloodSeed[]) => {
+    setFloodSeeds(seeds);
+
+    getRegisteredAlgorithms()
+      .filter(definition => definition.supportsSeeds)
+      .forEach(({ id }) => handleRerunAlgorithm(id, withSeeds(id, algorithmOptions[id] ?? {}, seeds)));
+  };
+
+  const handleSelectImage = (url: string) => {
+    setSelectedImageUrl(url);
+    // Seed positions only make sense on the image they were placed on
+    setFloodSeeds([]);
+  };
+
+  const toggleBatchImage = (url: string, checked: boolean) => {
+    setBatchSelection(prev => (checked ? [...prev, url] : prev.filter(selected => selected !== url)));
+  };
+
+  const selectForBatch = (predicate: (image: FoundImage) => boolean) => {
+    setBatchSelection(foundImages.filter(predicate).map(image => image.url));
+  };
+
+  // Source of the results on screen, which may differ from the image selected since
+  const getResultSource = (): ExportSource => {
+    const image = foundImages.find(found => found.url === originalImage);
+    if (!image) return { filename: 'image', url: originalImage ?? undefined };
+    return { filename: image.filename, url: image.url, pageUrl: pageUrl || undefined, type: image.type };
+  };
+
+  // The ensemble has no options of its own
+  const getResultOptions = (algorithm: BackgroundRemovalAlgorithm) => {
+    return getAlgorithm(algorithm) ? withSeeds(algorithm, algorithmOptions[algorithm] ?? {}, floodSeeds) : undefined;
+  };
+
+  const saveDownload = (blob: Blob, filename: string) => {
+    downloadBlob(blob, filename);
 
     toast({
       title: "Downloaded!",
-      description: `Your ${algorithmInfo[algorithm].name} result has been downloaded`,
+      description: `${filename} has been downloaded`,
     });
   };
 
+  const handleDownload = (algorithm: BackgroundRemovalAlgorithm, blob: Blob) => {
+    saveDownload(blob, getResultFilename(getResultSource().filename, algorithm, getResultOptions(algorithm)));
+  };
+
+  const handleDownloadAll = async () => {
+    const source = getResultSource();
+
+    try {
+      setIsExporting(true);
+      const archive = await createResultsArchive(orderedResults.map(result => ({
+        source,
+        algorithm: result.algorithm,
+        options: getResultOptions(result.algorithm),
+        blob: result.blob,
+        quality: result.quality,
+        edited: Boolean(result.unedited)
+      })));
+      saveDownload(archive, `${getFileStem(source.filename)}-results.zip`);
+    } catch (error) {
+      console.error('Failed to export results:', error);
+      toast({
+        title: "Export Failed",
+        description: "Could not create the ZIP file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleDownloadOriginal = () => {
     if (!originalImageBlob) return;
     
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(originalImageBlob);
     const selectedImage = foundImages.find(img => img.url === selectedImageUrl);
-    link.download = selectedImage?.filename || 'original-image';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(originalImageBlob, selectedImage?.filename || 'original-image');
 
     toast({
       title: "Downloaded!",
@@ -484,12 +757,27 @@ const BackgroundRemover = () => {
   };
 
   const handleReset = () => {
+    processingController.current?.abort();
+    processingController.current = null;
+    checkerboardScanController.current?.abort();
+    checkerboardScanController.current = null;
+    abortReruns();
+    sourceImage.current = null;
+    setRefinementMasks({});
+    setEditingAlgorithm(null);
+    setFloodSeeds([]);
+    setIsProcessing(false);
+    setProgress(0);
     setInputUrl('');
+    setPageUrl('');
     setFoundImages([]);
+    setCheckerboardFlags({});
     setSelectedImageUrl('');
+    setBatchSelection([]);
     setOriginalImage(null);
     setOriginalImageBlob(null);
     setProcessedResults([]);
+    setAlgorithmStatuses({});
     
     // Clean up object URLs
     processedResults.forEach(result => {
@@ -497,6 +785,20 @@ const BackgroundRemover = () => {
     });
   };
 
+  const batchImages = useMemo(
+    () => foundImages
+      .filter(image => batchSelection.includes(image.url))
+      .map(image => ({ filename: image.filename, url: image.url, pageUrl: pageUrl || undefined, type: image.type })),
+    [foundImages, batchSelection, pageUrl]
+  );
+  const editingResult = processedResults.find(result => result.algorithm === editingAlgorithm);
+  const orderedResults = useMemo(() => {
+    const order = getRegisteredAlgorithms().map(({ id }) => id);
+    return [...processedResults].sort((a, b) => order.indexOf(a.algorithm) - order.indexOf(b.algorithm));
+  }, [processedResults]);
+  // Only recommend once every algorithm has had its chance
+  const recommended = isProcessing ? undefined : getRecommendedResult(processedResults);
+
   return (
     <div className="max-w-6xl mx-auto p-6 space-y-8">
       <div className="text-center space-y-4">
@@ -556,10 +858,33 @@ const BackgroundRemover = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
-            <RadioGroup value={selectedImageUrl} onValueChange={setSelectedImageUrl}>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground mr-1">
+                Select for batch ({batchSelection.length}):
+              </span>
+              <Button variant="outline" size="sm" onClick={() => selectForBatch(() => true)}>
+                All
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => selectForBatch(isSvgFoundImage)}>
+                All SVGs
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => selectForBatch(image => !isSvgFoundImage(image))}>
+                All PNGs
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setBatchSelection([])} disabled={batchSelection.length === 0}>
+                None
+              </Button>
+            </div>
+
+            <RadioGroup value={selectedImageUrl} onValueChange={handleSelectImage}>
               <div className="grid gap-4 max-h-96 overflow-y-auto">
                 {foundImages.map((image, index) => (
                   <div key={index} className="flex items-center space-x-4 p-3 border rounded-lg hover:bg-gray-50">
+                    <Checkbox
+                      checked={batchSelection.includes(image.url)}
+                      onCheckedChange={(checked) => toggleBatchImage(image.url, checked === true)}
+                      aria-label={`Add ${image.filename} to the batch`}
+                    />
                     <RadioGroupItem value={image.url} id={`image-${index}`} />
                     <div className="flex-1 min-w-0">
                       <Label htmlFor={`image-${index}`} className="cursor-pointer">
@@ -583,7 +908,14 @@ const BackgroundRemover = () => {
                             )}
                           </div>
                           <div className="min-w-0 flex-1">
-                            <p className="font-medium truncate">{image.filename}</p>
+                            <div className="flex items-center gap-2 min-w-0">
+                              <p className="font-medium truncate">{image.filename}</p>
+                              {checkerboardFlags[image.url] && (
+                                <Badge variant="outline" className="flex-shrink-0" title="The checkerboard is part of the pixels; try Checkerboard Removal">
+                                  Fake transparency
+                                </Badge>
+                              )}
+                            </div>
                             <p className="text-sm text-muted-foreground">
                               {image.type === 'inline-svg' ? 'Inline SVG' : 
                                image.type === 'css-svg' ? 'CSS SVG' : image.type.toUpperCase()} • 
@@ -628,6 +960,32 @@ const BackgroundRemover = () => {
               />
             </div>
 
+            {/* Concurrency Option */}
+            <div className="flex items-center justify-between p-4 border rounded-lg">
+              <div>
+                <Label htmlFor="concurrency" className="font-medium">
+                  Algorithms at a time
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Run several algorithms in parallel; results appear as soon as each one finishes
+                </p>
+              </div>
+              <Select
+                value={String(concurrency)}
+                onValueChange={(value) => setConcurrency(Number(value))}
+                disabled={isProcessing}
+              >
+                <SelectTrigger id="concurrency" className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: getRegisteredAlgorithms().length }, (_, index) => index + 1).map(value => (
+                    <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <Button 
               onClick={handleProcessImage} 
               disabled={isProcessing || !selectedImageUrl}
@@ -648,10 +1006,20 @@ const BackgroundRemover = () => {
 
             {isProcessing && (
               <div className="space-y-2">
-                <Progress value={progress} className="w-full" />
+                <div className="flex items-center gap-2">
+                  <Progress value={progress} className="flex-1" />
+                  <Button
+                    onClick={handleCancelProcessing}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
                 <p className="text-sm text-center text-muted-foreground">
                   {progress < 30 ? 'Loading image...' : 
-                   progress < 90 ? 'Processing with multiple algorithms...' : 
+                   progress < 90 ? `Processing with multiple algorithms... (${Object.values(algorithmStatuses).filter(status => status.state === 'done' || status.state === 'failed' || status.state === 'skipped').length}/${getRegisteredAlgorithms().length} finished)` : 
                    'Finalizing results...'}
                 </p>
               </div>
@@ -660,8 +1028,18 @@ const BackgroundRemover = () => {
         </Card>
       )}
 
+      {foundImages.length > 0 && (
+        <BatchQueueCard
+          images={batchImages}
+          algorithmOptions={algorithmOptions}
+          convertSvg={convertSvgToPngEnabled}
+          concurrency={concurrency}
+          onDownload={saveDownload}
+        />
+      )}
+
       {/* Results Grid */}
-      {(originalImage && (processedResults.length > 0 || isProcessing)) && (
+      {(originalImage && (processedResults.length > 0 || isProcessing || Object.keys(algorithmStatuses).length > 0)) && (
         <div className="space-y-6">
           {/* Original Image */}
           <Card className="shadow-lg">
@@ -684,74 +1062,77 @@ const BackgroundRemover = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="aspect-square bg-white border rounded-lg overflow-hidden max-w-md mx-auto">
-                <img
-                  src={originalImage}
-                  alt="Original"
-                  className="w-full h-full object-contain"
-                />
-              </div>
+              <SeedPicker
+                imageUrl={originalImage}
+                seeds={floodSeeds}
+                onChange={handleSeedsChange}
+                disabled={isProcessing}
+              />
             </CardContent>
           </Card>
 
           {/* Algorithm Results */}
           <Card className="shadow-lg">
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Grid className="h-5 w-5" />
-                Algorithm Comparison {processedResults.length > 0 && `(${processedResults.length} results)`}
+              <CardTitle className="flex items-center gap-2 justify-between">
+                <div className="flex items-center gap-2">
+                  <Grid className="h-5 w-5" />
+                  Algorithm Comparison {processedResults.length > 0 && `(${processedResults.length} results)`}
+                </div>
+                <Button
+                  onClick={handleDownloadAll}
+                  disabled={processedResults.length === 0 || isProcessing || isExporting}
+                  variant="outline"
+                  size="sm"
+                >
+                  {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileArchive className="h-4 w-4 mr-2" />}
+                  Download All (ZIP)
+                </Button>
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {isProcessing ? (
-                  // Show skeleton loaders while processing
-                  Array.from({ length: 7 }).map((_, index) => (
-                    <div key={index} className="space-y-4">
-                      <div className="text-center">
-                        <Skeleton className="h-6 w-32 mx-auto mb-2" />
-                        <Skeleton className="h-4 w-48 mx-auto" />
-                      </div>
-                      <Skeleton className="aspect-square rounded-lg w-full" />
-                      <Skeleton className="h-9 w-full" />
-                    </div>
-                  ))
-                ) : (
-                  processedResults.map(({ algorithm, result, blob }) => (
-                    <div key={algorithm} className="space-y-4">
-                      <div className="text-center">
-                        <h3 className="font-semibold text-lg">{algorithmInfo[algorithm].name}</h3>
-                        <p className="text-sm text-muted-foreground">{algorithmInfo[algorithm].description}</p>
-                      </div>
-                      
-                      <div className="aspect-square bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg overflow-hidden relative">
-                        <div className="absolute inset-0 opacity-20" style={{
-                          backgroundImage: `url("data:image/svg+xml,%3csvg width='20' height='20' viewBox='0 0 20 20' xmlns='http://www.w3.org/2000/svg'%3e%3cg fill='%23000' fill-opacity='0.1' fill-rule='evenodd'%3e%3crect width='10' height='10'/%3e%3crect x='10' y='10' width='10' height='10'/%3e%3c/g%3e%3c/svg%3e")`,
-                        }} />
-                        <img
-                          src={result}
-                          alt={`${algorithmInfo[algorithm].name} result`}
-                          className="w-full h-full object-contain relative z-10"
-                        />
-                      </div>
-                      
-                      <Button 
-                        onClick={() => handleDownload(algorithm, blob)}
-                        className="w-full bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700"
-                        size="sm"
-                      >
-                        <Download className="h-4 w-4 mr-2" />
-                        Download {algorithmInfo[algorithm].name}
-                      </Button>
-                    </div>
-                  ))
-                )}
+                {getRegisteredAlgorithms()
+                  .filter(({ id }) => algorithmStatuses[id] || processedResults.some(result => result.algorithm === id))
+                  .map(({ id }) => (
+                    <AlgorithmResultCard
+                      key={id}
+                      algorithm={id}
+                      status={algorithmStatuses[id]}
+                      result={processedResults.find(result => result.algorithm === id)}
+                      onDownload={handleDownload}
+                      options={algorithmOptions[id]}
+                      onOptionsChange={handleOptionsChange}
+                      optionsDisabled={isProcessing}
+                      onEdit={setEditingAlgorithm}
+                      recommended={recommended?.algorithm === id}
+                    />
+                  ))}
               </div>
             </CardContent>
           </Card>
+
+          <EnsembleCard
+            key={originalImage}
+            image={sourceImage.current}
+            results={orderedResults}
+            paused={isProcessing}
+            onDownload={handleDownload}
+          />
         </div>
       )}
 
+      <RefinementEditor
+        open={editingAlgorithm !== null}
+        title={editingAlgorithm ? getAlgorithm(editingAlgorithm)?.name ?? editingAlgorithm : ''}
+        image={editingResult ? editingResult.unedited ?? editingResult.blob : null}
+        mask={editingAlgorithm ? refinementMasks[editingAlgorithm] : undefined}
+        onSave={(mask) => editingAlgorithm && handleSaveEdits(editingAlgorithm, mask)}
+        onOpenChange={(open) => !open && setEditingAlgorithm(null)}
+      />
+
+      <ModelStatusPanel />
+
       {(foundImages.length > 0 || originalImage || processedResults.length > 0) && (
         <div className="text-center">
           <Button 
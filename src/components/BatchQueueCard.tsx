@@ -0,0 +1,371 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, FileArchive, ListChecks, Loader2, Pause, Play, RotateCcw, Trash2, X } from 'lucide-react';
+import { getRegisteredAlgorithms, loadImage, loadImageFromUrl, runAlgorithm, AlgorithmResult, BackgroundRemovalAlgorithm } from '@/utils/backgroundRemoval';
+import { createBatchQueue, getBatchCounts, BatchJob, BatchJobState, BatchQueue } from '@/utils/batchQueue';
+import { convertSvgToPng, isSvgImage } from '@/utils/svgToPng';
+import { createResultsArchive, getResultFilename, ExportSource } from '@/utils/resultExport';
+import { isAbortError, raceWithAbort } from '@/utils/abort';
+import { useToast } from '@/hooks/use-toast';
+
+export interface BatchImage extends ExportSource {
+  url: string;
+}
+
+interface BatchInput {
+  image: BatchImage;
+  algorithm: BackgroundRemovalAlgorithm;
+  options: Record<string, unknown>;
+  convertSvg: boolean;
+}
+
+type BatchQueueJob = BatchJob<BatchInput, AlgorithmResult>;
+
+interface BatchQueueCardProps {
+  images: BatchImage[];
+  algorithmOptions: Record<string, Record<string, unknown>>;
+  convertSvg: boolean;
+  concurrency: number;
+  onDownload: (blob: Blob, filename: string) => void;
+}
+
+// Failures such as a proxy hiccup often pass on a second try
+const MAX_ATTEMPTS = 2;
+
+const stateLabels: Record<BatchJobState, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const formatTime = (ms?: number) => (ms === undefined ? '' : `${(ms / 1000).toFixed(1)}s`);
+
+interface LoadedSource {
+  url: string;
+  image: Promise<HTMLImageElement>;
+}
+
+// Revokes the object URL behind a loaded image, unless it is the source URL itself:
+// inline SVGs come as object URLs that belong to the page's image list
+const releaseImage = (imageElement: HTMLImageElement, sourceUrl: string) => {
+  if (imageElement.src.startsWith('blob:') && imageElement.src !== sourceUrl) URL.revokeObjectURL(imageElement.src);
+};
+
+const releaseSources = (sources: Map<string, LoadedSource>) => {
+  sources.forEach(({ url, image }) => image.then(imageElement => releaseImage(imageElement, url), () => undefined));
+  sources.clear();
+};
+
+// Runs every selected image through the chosen algorithms, a few jobs at a time
+const BatchQueueCard = ({ images, algorithmOptions, convertSvg, concurrency, onDownload }: BatchQueueCardProps) => {
+  const algorithms = useMemo(() => getRegisteredAlgorithms(), []);
+  // Model algorithms are slow on dozens of images, so only the colour-based ones start selected,
+  // leaving out those that only apply to some images
+  const [selectedAlgorithms, setSelectedAlgorithms] = useState<BackgroundRemovalAlgorithm[]>(() =>
+    algorithms.filter(definition => !definition.models?.length && !definition.isApplicable).map(({ id }) => id)
+  );
+  const [jobs, setJobs] = useState<BatchQueueJob[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const queueRef = useRef<BatchQueue<BatchInput> | null>(null);
+  // Images are loaded once and shared by all of their jobs
+  const sources = useRef(new Map<string, LoadedSource>());
+  const sourceController = useRef<AbortController | null>(null);
+
+  const loadSource = (image: BatchImage, convert: boolean): Promise<HTMLImageElement> => {
+    const key = `${convert}:${image.url}`;
+    let source = sources.current.get(key)?.image;
+
+    if (!source) {
+      const signal = sourceController.current?.signal;
+      source = (async () => {
+        const imageElement = await loadImageFromUrl(image.url, signal);
+        if (!convert || !isSvgImage(imageElement)) return imageElement;
+
+        try {
+          const converted = await loadImage(await convertSvgToPng(imageElement, 2, signal), signal);
+          releaseImage(imageElement, image.url);
+          return converted;
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn(`SVG conversion failed for ${image.filename}, using the original:`, error);
+          return imageElement;
+        }
+      })();
+      // Let a retry load the image again
+      source.catch(() => sources.current.delete(key));
+      sources.current.set(key, { url: image.url, image: source });
+    }
+
+    return source;
+  };
+
+  const getQueue = () => {
+    if (!queueRef.current) {
+      queueRef.current = createBatchQueue<BatchInput, AlgorithmResult>({
+        concurrency,
+        maxAttempts: MAX_ATTEMPTS,
+        run: async ({ image, algorithm, options, convertSvg: convert }, signal) => {
+          const imageElement = await raceWithAbort(loadSource(image, convert), signal);
+          return await runAlgorithm(imageElement, algorithm, options, signal);
+        },
+        onChange: setJobs,
+        onDiscard: (result) => URL.revokeObjectURL(result.result)
+      });
+    }
+    return queueRef.current;
+  };
+
+  useEffect(() => {
+    queueRef.current?.setConcurrency(concurrency);
+  }, [concurrency]);
+
+  useEffect(() => {
+    const currentSources = sources.current;
+    const controller = new AbortController();
+    sourceController.current = controller;
+
+    return () => {
+      queueRef.current?.clear();
+      controller.abort();
+      releaseSources(currentSources);
+    };
+  }, []);
+
+  const counts = getBatchCounts(jobs);
+  const finished = counts.done + counts.failed + counts.cancelled;
+  const isActive = counts.queued + counts.running > 0;
+  const rows = useMemo(() => {
+    const byImage = new Map<string, { image: BatchImage; jobs: Map<string, BatchQueueJob> }>();
+    jobs.forEach(job => {
+      const row = byImage.get(job.input.image.url) ?? { image: job.input.image, jobs: new Map() };
+      row.jobs.set(job.input.algorithm, job);
+      byImage.set(job.input.image.url, row);
+    });
+    return [...byImage.values()];
+  }, [jobs]);
+  const columns = algorithms.filter(({ id }) => jobs.some(job => job.input.algorithm === id));
+
+  const toggleAlgorithm = (algorithm: BackgroundRemovalAlgorithm, checked: boolean) => {
+    setSelectedAlgorithms(prev => (checked ? [...prev, algorithm] : prev.filter(id => id !== algorithm)));
+  };
+
+  const handleStart = () => {
+    const chosen = algorithms.filter(({ id }) => selectedAlgorithms.includes(id));
+    getQueue().add(
+      images.flatMap(image =>
+        chosen.map(({ id }) => ({
+          id: `${id}:${image.url}`,
+          input: { image, algorithm: id, options: algorithmOptions[id] ?? {}, convertSvg }
+        }))
+      )
+    );
+  };
+
+  const handlePauseToggle = () => {
+    if (isPaused) {
+      queueRef.current?.resume();
+    } else {
+      queueRef.current?.pause();
+    }
+    setIsPaused(!isPaused);
+  };
+
+  const handleCancel = () => {
+    queueRef.current?.cancel();
+    setIsPaused(false);
+  };
+
+  const handleRetry = () => {
+    queueRef.current?.retryFailed();
+    setIsPaused(false);
+  };
+
+  const handleClear = () => {
+    queueRef.current?.clear();
+    releaseSources(sources.current);
+    setIsPaused(false);
+  };
+
+  const handleDownloadAll = async () => {
+    try {
+      setIsExporting(true);
+      const archive = await createResultsArchive(
+        jobs
+          .filter(job => job.state === 'done')
+          .map(({ input, result }) => ({
+            source: input.image,
+            algorithm: input.algorithm,
+            options: input.options,
+            blob: result!.blob,
+            quality: result!.quality
+          }))
+      );
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+      onDownload(archive, `batch-results-${timestamp}.zip`);
+    } catch (error) {
+      console.error('Failed to export batch results:', error);
+      toast({
+        title: "Export Failed",
+        description: "Could not create the ZIP file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderCell = (job?: BatchQueueJob) => {
+    if (!job) return <span className="text-muted-foreground">–</span>;
+
+    switch (job.state) {
+      case 'running':
+        return (
+          <span className="inline-flex items-center gap-1 text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {job.attempts > 1 ? `Retry ${job.attempts - 1}` : 'Running'}
+          </span>
+        );
+      case 'done':
+        return (
+          <div className="flex items-center gap-2">
+            <img src={job.result!.result} alt="" className="h-8 w-8 object-contain rounded border bg-gray-100" />
+            <div className="text-xs leading-tight">
+              {job.result!.quality && <div>Score {job.result!.quality.overall}</div>}
+              <div className="text-muted-foreground">{formatTime(job.elapsedMs)}</div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDownload(job.result!.blob, getResultFilename(job.input.image.filename, job.input.algorithm, job.input.options))}
+              aria-label="Download result"
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      case 'failed':
+        return (
+          <span className="text-destructive" title={job.error}>
+            Failed{job.attempts > 1 && ` after ${job.attempts} tries`}
+          </span>
+        );
+      default:
+        return <span className="text-muted-foreground">{stateLabels[job.state]}</span>;
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Batch Processing ({images.length} selected)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {algorithms.map(definition => (
+            <div key={definition.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`batch-${definition.id}`}
+                checked={selectedAlgorithms.includes(definition.id)}
+                onCheckedChange={(checked) => toggleAlgorithm(definition.id, checked === true)}
+              />
+              <Label htmlFor={`batch-${definition.id}`} className="cursor-pointer">
+                {definition.name}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={handleStart}
+            disabled={images.length === 0 || selectedAlgorithms.length === 0}
+            className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {isActive ? 'Add to Queue' : 'Process'} {images.length} × {selectedAlgorithms.length}
+          </Button>
+          <Button onClick={handlePauseToggle} disabled={!isActive} variant="outline">
+            {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+            {isPaused ? 'Resume' : 'Pause'}
+          </Button>
+          <Button onClick={handleCancel} disabled={!isActive} variant="outline">
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+          <Button onClick={handleRetry} disabled={counts.failed + counts.cancelled === 0} variant="outline">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Retry Failed ({counts.failed + counts.cancelled})
+          </Button>
+          <Button onClick={handleDownloadAll} disabled={counts.done === 0 || isExporting} variant="outline">
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileArchive className="h-4 w-4 mr-2" />}
+            Download All (ZIP)
+          </Button>
+          <Button onClick={handleClear} disabled={jobs.length === 0} variant="ghost">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+
+        {jobs.length > 0 && (
+          <div className="space-y-2">
+            <Progress value={(finished / jobs.length) * 100} />
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {finished}/{jobs.length} finished{isPaused && isActive && ' · paused'}
+              </span>
+              {(Object.keys(stateLabels) as BatchJobState[])
+                .filter(state => counts[state] > 0)
+                .map(state => (
+                  <Badge key={state} variant={state === 'failed' ? 'destructive' : state === 'done' ? 'default' : 'secondary'}>
+                    {stateLabels[state]} {counts[state]}
+                  </Badge>
+                ))}
+            </div>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="max-h-[32rem] overflow-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Image</TableHead>
+                  {columns.map(definition => (
+                    <TableHead key={definition.id}>{definition.name}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.image.url}>
+                    <TableCell className="font-medium max-w-48 truncate" title={row.image.url}>
+                      {row.image.filename}
+                    </TableCell>
+                    {columns.map(definition => (
+                      <TableCell key={definition.id}>{renderCell(row.jobs.get(definition.id))}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BatchQueueCard;
@@ -0,0 +1,334 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart3, ChevronDown, FileJson, FileSpreadsheet, Loader2, Play, SlidersHorizontal, X } from 'lucide-react';
+import AlgorithmOptionsPanel from '@/components/AlgorithmOptionsPanel';
+import { getRegisteredAlgorithms, BackgroundRemovalAlgorithm } from '@/utils/backgroundRemoval';
+import { benchmarkToCsv, benchmarkToJson, pairBenchmarkFiles, runBenchmark, summarizeBenchmark, BenchmarkRow } from '@/utils/benchmark';
+import { mattingMetricInfo, MattingMetrics } from '@/utils/benchmarkMetrics';
+import { DEFAULT_POST_PROCESSING_OPTIONS } from '@/utils/postProcessing';
+import { isAbortError } from '@/utils/abort';
+import { useToast } from '@/hooks/use-toast';
+
+const metricKeys = Object.keys(mattingMetricInfo) as (keyof MattingMetrics)[];
+
+const formatMetric = (key: keyof MattingMetrics, value: number) => (key === 'mse' ? value.toFixed(4) : value.toFixed(3));
+const formatTime = (ms?: number) => (ms === undefined ? '–' : `${Math.round(ms)} ms`);
+
+const downloadText = (text: string, filename: string, type: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([text], { type }));
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+const BenchmarkRunner = () => {
+  const { toast } = useToast();
+  const algorithms = useMemo(() => getRegisteredAlgorithms(), []);
+  const [images, setImages] = useState<File[]>([]);
+  const [references, setReferences] = useState<File[]>([]);
+  const [selected, setSelected] = useState<BackgroundRemovalAlgorithm[]>(() => algorithms.map(({ id }) => id));
+  const [algorithmOptions, setAlgorithmOptions] = useState<Record<string, Record<string, unknown>>>({});
+  const [openSettings, setOpenSettings] = useState<string | null>(null);
+  const [rows, setRows] = useState<BenchmarkRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+
+  // Memoised so the panels only reset their slider drafts when the options change
+  const mergedOptions = useMemo(() => Object.fromEntries(algorithms.map(definition => [
+    definition.id,
+    { ...DEFAULT_POST_PROCESSING_OPTIONS, ...definition.defaultOptions, ...algorithmOptions[definition.id] }
+  ])), [algorithms, algorithmOptions]);
+  const { pairs, unmatched } = useMemo(() => pairBenchmarkFiles(images, references), [images, references]);
+  const summary = useMemo(() => summarizeBenchmark(rows), [rows]);
+  const totalRuns = pairs.length * selected.length;
+
+  // Best mean per metric, for highlighting
+  const best = useMemo(() => {
+    const values: Partial<Record<keyof MattingMetrics | 'timeMs', number>> = {};
+    for (const { metrics, timeMs } of summary) {
+      if (!metrics) continue;
+      for (const key of metricKeys) {
+        const current = values[key];
+        const better = mattingMetricInfo[key].higherIsBetter ? metrics[key] > (current ?? -Infinity) : metrics[key] < (current ?? Infinity);
+        if (better) values[key] = metrics[key];
+      }
+      if (timeMs !== undefined && timeMs < (values.timeMs ?? Infinity)) values.timeMs = timeMs;
+    }
+    return values;
+  }, [summary]);
+
+  const toggleAlgorithm = (id: string, checked: boolean) => {
+    setSelected(prev => checked ? algorithms.map(a => a.id).filter(a => a === id || prev.includes(a)) : prev.filter(a => a !== id));
+  };
+
+  const handleRun = async () => {
+    controller.current?.abort();
+    const runController = new AbortController();
+    controller.current = runController;
+    setRows([]);
+    setIsRunning(true);
+
+    try {
+      console.log(`Benchmarking ${selected.length} algorithm(s) on ${pairs.length} image(s)`);
+      const results = await runBenchmark(pairs, selected, {
+        algorithmOptions,
+        onRow: row => setRows(prev => [...prev, row]),
+        signal: runController.signal
+      });
+
+      toast({
+        title: "Benchmark Complete",
+        description: `${results.filter(row => row.metrics).length} of ${results.length} runs succeeded`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Benchmark Cancelled",
+          description: "The finished runs are kept in the table",
+        });
+        return;
+      }
+
+      console.error('Benchmark error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "The benchmark failed",
+        variant: "destructive",
+      });
+    } finally {
+      if (controller.current === runController) {
+        controller.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'csv') {
+      downloadText(benchmarkToCsv(rows), `benchmark-${stamp}.csv`, 'text/csv');
+    } else {
+      downloadText(benchmarkToJson(rows, algorithmOptions), `benchmark-${stamp}.json`, 'application/json');
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-8">
+      <div className="text-center space-y-4">
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
+          Algorithm Benchmark
+        </h1>
+        <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+          Load images with reference alpha mattes, run the algorithms on them and compare the errors against the ground truth.
+        </p>
+      </div>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Dataset</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="benchmark-images">Images</Label>
+              <Input
+                id="benchmark-images"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setImages(Array.from(e.target.files ?? []))}
+                disabled={isRunning}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="benchmark-references">Reference alphas</Label>
+              <Input
+                id="benchmark-references"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setReferences(Array.from(e.target.files ?? []))}
+                disabled={isRunning}
+              />
+              <p className="text-xs text-muted-foreground">
+                Matched by file name, e.g. cat.jpg with cat.png or cat_alpha.png. Either a PNG with transparency or a greyscale mask.
+              </p>
+            </div>
+          </div>
+
+          {(images.length > 0 || references.length > 0) && (
+            <p className="text-sm">
+              {pairs.length} pair(s) ready
+              {unmatched.length > 0 && (
+                <span className="text-destructive"> · no reference for {unmatched.join(', ')}</span>
+              )}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Algorithms</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {algorithms.map(definition => (
+            <Collapsible
+              key={definition.id}
+              open={openSettings === definition.id}
+              onOpenChange={(open) => setOpenSettings(open ? definition.id : null)}
+            >
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  id={`benchmark-${definition.id}`}
+                  checked={selected.includes(definition.id)}
+                  onCheckedChange={(checked) => toggleAlgorithm(definition.id, checked === true)}
+                  disabled={isRunning}
+                />
+                <Label htmlFor={`benchmark-${definition.id}`} className="flex-1 cursor-pointer">
+                  {definition.name}
+                  <span className="ml-2 text-xs text-muted-foreground">{definition.description}</span>
+                </Label>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <SlidersHorizontal className="h-4 w-4 mr-1" />
+                    Options
+                    <ChevronDown className={`h-4 w-4 ml-1 transition-transform ${openSettings === definition.id ? 'rotate-180' : ''}`} />
+                  </Button>
+                </CollapsibleTrigger>
+              </div>
+              <CollapsibleContent className="pt-2">
+                <AlgorithmOptionsPanel
+                  definition={definition}
+                  options={mergedOptions[definition.id]}
+                  onChange={(next) => setAlgorithmOptions(prev => ({ ...prev, [definition.id]: next }))}
+                  disabled={isRunning}
+                />
+              </CollapsibleContent>
+            </Collapsible>
+          ))}
+
+          <div className="flex gap-2 pt-3">
+            <Button
+              onClick={handleRun}
+              disabled={isRunning || totalRuns === 0}
+              className="flex-1 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+            >
+              {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Run {totalRuns} benchmark run(s)
+            </Button>
+            {isRunning && (
+              <Button variant="outline" onClick={() => controller.current?.abort()}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+          </div>
+          {isRunning && <Progress value={totalRuns > 0 ? (rows.length / totalRuns) * 100 : 0} />}
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Results
+              <div className="ml-auto flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleExport('csv')}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExport('json')}>
+                  <FileJson className="h-4 w-4 mr-2" />
+                  JSON
+                </Button>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <p className="text-sm font-medium mb-2">Mean per algorithm</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Algorithm</TableHead>
+                    {metricKeys.map(key => (
+                      <TableHead key={key} className="text-right">
+                        {mattingMetricInfo[key].label} {mattingMetricInfo[key].higherIsBetter ? '↑' : '↓'}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Time ↓</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.map(({ algorithm, metrics, timeMs, failures, runs }) => (
+                    <TableRow key={algorithm}>
+                      <TableCell className="font-medium">{algorithms.find(({ id }) => id === algorithm)?.name ?? algorithm}</TableCell>
+                      {metricKeys.map(key => (
+                        <TableCell key={key} className={`text-right tabular-nums ${metrics && metrics[key] === best[key] ? 'font-semibold text-green-700' : ''}`}>
+                          {metrics ? formatMetric(key, metrics[key]) : '–'}
+                        </TableCell>
+                      ))}
+                      <TableCell className={`text-right tabular-nums ${timeMs !== undefined && timeMs === best.timeMs ? 'font-semibold text-green-700' : ''}`}>
+                        {formatTime(timeMs)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{failures}/{runs}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">All runs</p>
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Image</TableHead>
+                      <TableHead>Algorithm</TableHead>
+                      {metricKeys.map(key => (
+                        <TableHead key={key} className="text-right">{mattingMetricInfo[key].label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Time</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{row.image}</TableCell>
+                        <TableCell>{algorithms.find(({ id }) => id === row.algorithm)?.name ?? row.algorithm}</TableCell>
+                        {row.metrics ? (
+                          metricKeys.map(key => (
+                            <TableCell key={key} className="text-right tabular-nums">{formatMetric(key, row.metrics![key])}</TableCell>
+                          ))
+                        ) : (
+                          <TableCell colSpan={metricKeys.length} className="text-destructive">{row.error}</TableCell>
+                        )}
+                        <TableCell className="text-right tabular-nums">{formatTime(row.timeMs)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkRunner;
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { AlertCircle, Download, Layers, Loader2 } from 'lucide-react';
+import { createEnsembleResult, getAlgorithm, AlgorithmResult, BackgroundRemovalAlgorithm, EnsembleResult } from '@/utils/backgroundRemoval';
+import { DEFAULT_ENSEMBLE_OPTIONS, ensembleMethods, getEnsembleWeight, EnsembleMethod, EnsembleOptions } from '@/utils/ensemble';
+import { isAbortError } from '@/utils/abort';
+
+interface EnsembleCardProps {
+  image: HTMLImageElement | null;
+  results: AlgorithmResult[];
+  // Holds off recombining while the results are still changing
+  paused?: boolean;
+  onDownload: (algorithm: BackgroundRemovalAlgorithm, blob: Blob) => void;
+}
+
+const revokeEnsemble = (ensemble: EnsembleResult | null) => {
+  if (!ensemble) return;
+  URL.revokeObjectURL(ensemble.result);
+  URL.revokeObjectURL(ensemble.disagreement);
+};
+
+// Consensus of all finished results, with per-algorithm weights and a disagreement view
+const EnsembleCard = ({ image, results, paused, onDownload }: EnsembleCardProps) => {
+  const [options, setOptions] = useState<EnsembleOptions>(DEFAULT_ENSEMBLE_OPTIONS);
+  // Slider values while dragging; the ensemble is only rebuilt when the thumb is released
+  const [draftWeights, setDraftWeights] = useState<Record<string, number>>({});
+  const [ensemble, setEnsemble] = useState<EnsembleResult | null>(null);
+  const [isCombining, setIsCombining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showDisagreement, setShowDisagreement] = useState(false);
+
+  useEffect(() => {
+    if (paused || !image || results.length < 2) return;
+
+    const controller = new AbortController();
+    setIsCombining(true);
+    setError(null);
+
+    createEnsembleResult(image, results, options, controller.signal)
+      .then(setEnsemble)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Ensemble error:', error);
+        setEnsemble(null);
+        setError(error instanceof Error ? error.message : 'Failed to combine the results');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsCombining(false);
+      });
+
+    return () => controller.abort();
+  }, [image, results, options, paused]);
+
+  // Revoke each result once it is replaced or the card goes away
+  useEffect(() => () => revokeEnsemble(ensemble), [ensemble]);
+
+  if (results.length < 2) return null;
+
+  const weightOf = (algorithm: string) => draftWeights[algorithm] ?? getEnsembleWeight(options, algorithm);
+  const method = ensembleMethods.find(({ id }) => id === options.method);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Ensemble ({results.length} algorithms)
+          {isCombining && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            {ensemble ? (
+              <div className="aspect-square bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg overflow-hidden relative">
+                <img
+                  src={showDisagreement ? ensemble.disagreement : ensemble.result}
+                  alt={showDisagreement ? 'Where the algorithms disagree' : 'Ensemble result'}
+                  className="w-full h-full object-contain relative z-10"
+                />
+              </div>
+            ) : error ? (
+              <div className="aspect-square rounded-lg border border-destructive/40 bg-destructive/5 flex flex-col items-center justify-center gap-2 p-4 text-center">
+                <AlertCircle className="h-8 w-8 text-destructive" />
+                <p className="text-sm text-destructive break-words">{error}</p>
+              </div>
+            ) : (
+              <Skeleton className="aspect-square rounded-lg w-full" />
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <Label htmlFor="ensemble-disagreement" className="text-sm">Show disagreement</Label>
+                <p className="text-xs text-muted-foreground">Red where the algorithms' alphas differ most</p>
+              </div>
+              <Switch
+                id="ensemble-disagreement"
+                checked={showDisagreement}
+                onCheckedChange={setShowDisagreement}
+                disabled={!ensemble}
+              />
+            </div>
+
+            <Button
+              onClick={() => ensemble && onDownload('ensemble', ensemble.blob)}
+              disabled={!ensemble || isCombining}
+              className="w-full bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700"
+              size="sm"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download Ensemble
+            </Button>
+          </div>
+
+          <div className="space-y-4 p-3 border rounded-lg bg-gray-50">
+            <div className="space-y-2">
+              <Label className="text-sm">Method</Label>
+              <Select
+                value={options.method}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, method: value as EnsembleMethod }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ensembleMethods.map(({ id, label }) => (
+                    <SelectItem key={id} value={id}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {method && <p className="text-xs text-muted-foreground">{method.description}</p>}
+            </div>
+
+            <div className="space-y-4 pt-3 border-t">
+              <p className="text-sm font-medium">Weights</p>
+              {results.map(({ algorithm }) => (
+                <div key={algorithm} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor={`ensemble-weight-${algorithm}`} className="text-sm">
+                      {getAlgorithm(algorithm)?.name ?? algorithm}
+                    </Label>
+                    <span className="text-sm text-muted-foreground tabular-nums">{weightOf(algorithm)}</span>
+                  </div>
+                  <Slider
+                    id={`ensemble-weight-${algorithm}`}
+                    min={0}
+                    max={3}
+                    step={0.1}
+                    value={[weightOf(algorithm)]}
+                    onValueChange={([next]) => setDraftWeights(prev => ({ ...prev, [algorithm]: next }))}
+                    onValueCommit={([next]) => {
+                      setDraftWeights(prev => {
+                        const remaining = { ...prev };
+                        delete remaining[algorithm];
+                        return remaining;
+                      });
+                      setOptions(prev => ({ ...prev, weights: { ...prev.weights, [algorithm]: next } }));
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnsembleCard;
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Cpu, HardDrive, Cloud, CloudOff, Loader2 } from 'lucide-react';
+import { SEGMENTATION_MODELS, LOCAL_MODEL_PATH, OFFLINE_MODE, BackendPreference, ModelLoadState, ModelStatus, detectLocalModels, setBackendPreference, unloadModel, unloadAllModels } from '@/utils/modelManager';
+import { BackendSupport, ModelBackend, backendLabels, detectBackendSupport } from '@/utils/backendDetection';
+import { useBackendPreference, useModelStatuses } from '@/hooks/use-model-status';
+
+const stateLabels: Record<ModelLoadState, string> = {
+  idle: 'Not loaded',
+  loading: 'Loading',
+  ready: 'Ready',
+  error: 'Failed'
+};
+
+const ModelSource = ({ status }: { status: ModelStatus }) => {
+  if (status.installedLocally === undefined) {
+    return <p className="text-sm text-muted-foreground">Checking {LOCAL_MODEL_PATH}...</p>;
+  }
+
+  if (status.installedLocally) {
+    return (
+      <p className="text-sm text-green-700 flex items-center gap-1">
+        <HardDrive className="h-3 w-3" />
+        Installed locally
+      </p>
+    );
+  }
+
+  return OFFLINE_MODE ? (
+    <p className="text-sm text-destructive flex items-center gap-1">
+      <CloudOff className="h-3 w-3" />
+      Not installed, unavailable offline
+    </p>
+  ) : (
+    <p className="text-sm text-muted-foreground flex items-center gap-1">
+      <Cloud className="h-3 w-3" />
+      Downloads from Hugging Face
+    </p>
+  );
+};
+
+const isBackendSupported = (backend: ModelBackend, support: BackendSupport | null) => {
+  if (!support) return true;
+  if (backend === 'webgpu') return support.webgpu;
+  if (backend === 'wasm-threaded') return support.wasmSimd && support.wasmThreads;
+  return true;
+};
+
+const ModelStatusPanel = () => {
+  const statuses = useModelStatuses();
+  const backendPreference = useBackendPreference();
+  const [backendSupport, setBackendSupport] = useState<BackendSupport | null>(null);
+
+  useEffect(() => {
+    detectLocalModels();
+    detectBackendSupport().then(setBackendSupport);
+  }, []);
+  const hasLoadedModels = SEGMENTATION_MODELS.some(modelId => statuses[modelId] && statuses[modelId].state !== 'idle');
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 justify-between">
+          <div className="flex items-center gap-2">
+            <Cpu className="h-5 w-5" />
+            AI Models
+            {OFFLINE_MODE && <Badge variant="outline">Offline mode</Badge>}
+          </div>
+          <Button
+            onClick={() => unloadAllModels()}
+            variant="outline"
+            size="sm"
+            disabled={!hasLoadedModels}
+          >
+            Unload All
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between p-3 border rounded-lg bg-gray-50">
+          <Label htmlFor="model-backend" className="font-medium">Inference backend</Label>
+          <Select
+            value={backendPreference}
+            onValueChange={(value) => setBackendPreference(value as BackendPreference)}
+          >
+            <SelectTrigger id="model-backend" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Automatic (fastest available)</SelectItem>
+              {(Object.keys(backendLabels) as ModelBackend[]).map(backend => (
+                <SelectItem key={backend} value={backend} disabled={!isBackendSupported(backend, backendSupport)}>
+                  {backendLabels[backend]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {SEGMENTATION_MODELS.map(modelId => {
+          const status = statuses[modelId] ?? { modelId, state: 'idle' as ModelLoadState };
+
+          return (
+            <div key={modelId} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{modelId}</p>
+                <ModelSource status={status} />
+                {status.error && (
+                  <p className="text-sm text-destructive truncate">{status.error}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Badge variant={status.state === 'error' ? 'destructive' : status.state === 'ready' ? 'default' : 'secondary'}>
+                  {status.state === 'loading' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                  {stateLabels[status.state]}
+                  {status.state === 'ready' && status.backend && ` on ${backendLabels[status.backend]}`}
+                </Badge>
+                <Button
+                  onClick={() => unloadModel(modelId)}
+                  variant="ghost"
+                  size="sm"
+                  disabled={status.state === 'idle' || status.state === 'error'}
+                >
+                  Unload
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModelStatusPanel;
@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Brush, Eraser, Hand, Loader2, Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { blobToImageData } from '@/utils/canvasUtils';
+import {
+  RefinementMask,
+  BrushMode,
+  MaskRegion,
+  applyRefinementMaskToRegion,
+  cloneRefinementMask,
+  createRefinementMask,
+  paintDab,
+  paintStroke
+} from '@/utils/refinementMask';
+
+type EditorTool = BrushMode | 'pan';
+
+interface RefinementEditorProps {
+  open: boolean;
+  title: string;
+  // The algorithm's own output; edits are always painted over this
+  image: Blob | null;
+  mask?: RefinementMask;
+  onSave: (mask: RefinementMask) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 8;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const RefinementEditor = ({ open, title, image, mask, onSave, onOpenChange }: RefinementEditorProps) => {
+  const [tool, setTool] = useState<EditorTool>('keep');
+  const [brushSize, setBrushSize] = useState(30);
+  const [hardness, setHardness] = useState(70);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [isLoading, setIsLoading] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<ImageData | null>(null);
+  const displayRef = useRef<ImageData | null>(null);
+  const maskRef = useRef<RefinementMask | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const panStartRef = useRef<{ clientX: number; clientY: number; x: number; y: number } | null>(null);
+
+  const redraw = (region?: MaskRegion) => {
+    const canvas = canvasRef.current;
+    const source = sourceRef.current;
+    const display = displayRef.current;
+    const editMask = maskRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!ctx || !source || !display || !editMask) return;
+
+    const area = region ?? { x: 0, y: 0, width: source.width, height: source.height };
+    applyRefinementMaskToRegion(source, editMask, display, area);
+    ctx.putImageData(display, 0, 0, area.x, area.y, area.width, area.height);
+  };
+
+  useEffect(() => {
+    if (!open || !image) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+
+    blobToImageData(image, controller.signal)
+      .then((imageData) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        sourceRef.current = imageData;
+        displayRef.current = new ImageData(imageData.width, imageData.height);
+        maskRef.current = mask && mask.width === imageData.width && mask.height === imageData.height
+          ? cloneRefinementMask(mask)
+          : createRefinementMask(imageData.width, imageData.height);
+
+        canvas.width = imageData.width;
+        canvas.height = imageData.height;
+        redraw();
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error('Failed to load result for editing:', error);
+      })
+      .finally(() => setIsLoading(false));
+
+    return () => controller.abort();
+    // The mask is only read when the editor opens; later changes come from this editor
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, image]);
+
+  const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  const brush = () => ({ mode: tool as BrushMode, size: brushSize, hardness: hardness / 100 });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    // Middle mouse button pans with any tool
+    if (tool === 'pan' || event.button === 1) {
+      panStartRef.current = { clientX: event.clientX, clientY: event.clientY, ...pan };
+      return;
+    }
+
+    if (!maskRef.current) return;
+
+    const point = toImagePoint(event);
+    lastPointRef.current = point;
+    const region = paintDab(maskRef.current, point.x, point.y, brush());
+    if (region) redraw(region);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const panStart = panStartRef.current;
+    if (panStart) {
+      setPan({ x: panStart.x + event.clientX - panStart.clientX, y: panStart.y + event.clientY - panStart.clientY });
+      return;
+    }
+
+    const last = lastPointRef.current;
+    if (!last || !maskRef.current) return;
+
+    const point = toImagePoint(event);
+    const region = paintStroke(maskRef.current, last.x, last.y, point.x, point.y, brush());
+    lastPointRef.current = point;
+    if (region) redraw(region);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+    panStartRef.current = null;
+  };
+
+  const handleWheel = (event: React.WheelEvent<HTMLDivElement>) => {
+    setZoom(prev => clampZoom(event.deltaY < 0 ? prev * 1.1 : prev / 1.1));
+  };
+
+  const handleClearEdits = () => {
+    const source = sourceRef.current;
+    if (!source) return;
+
+    maskRef.current = createRefinementMask(source.width, source.height);
+    redraw();
+  };
+
+  const handleSave = () => {
+    if (maskRef.current) onSave(maskRef.current);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Refine {title}</DialogTitle>
+          <DialogDescription>
+            Paint with Keep to restore parts that were removed and Erase to remove leftovers. Scroll to zoom.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <ToggleGroup type="single" value={tool} onValueChange={(value) => value && setTool(value as EditorTool)}>
+            <ToggleGroupItem value="keep" aria-label="Keep brush">
+              <Brush className="h-4 w-4 mr-1" />
+              Keep
+            </ToggleGroupItem>
+            <ToggleGroupItem value="erase" aria-label="Erase brush">
+              <Eraser className="h-4 w-4 mr-1" />
+              Erase
+            </ToggleGroupItem>
+            <ToggleGroupItem value="pan" aria-label="Pan">
+              <Hand className="h-4 w-4 mr-1" />
+              Pan
+            </ToggleGroupItem>
+          </ToggleGroup>
+
+          <div className="w-40 space-y-2">
+            <Label className="text-sm">Brush size: {brushSize}px</Label>
+            <Slider min={1} max={200} step={1} value={[brushSize]} onValueChange={([value]) => setBrushSize(value)} />
+          </div>
+
+          <div className="w-40 space-y-2">
+            <Label className="text-sm">Hardness: {hardness}%</Label>
+            <Slider min={0} max={100} step={1} value={[hardness]} onValueChange={([value]) => setHardness(value)} />
+          </div>
+
+          <div className="flex items-center gap-1 ml-auto">
+            <Button variant="outline" size="sm" onClick={() => setZoom(prev => clampZoom(prev / 1.25))} aria-label="Zoom out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground w-12 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+            <Button variant="outline" size="sm" onClick={() => setZoom(prev => clampZoom(prev * 1.25))} aria-label="Zoom in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setZoom(1);
+                setPan({ x: 0, y: 0 });
+              }}
+              aria-label="Fit to view"
+            >
+              <Maximize className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div
+          className="relative h-[60vh] rounded-lg border overflow-hidden bg-gradient-to-br from-gray-100 to-gray-200 flex items-center justify-center"
+          onWheel={handleWheel}
+        >
+          <div className="absolute inset-0 opacity-20" style={{
+            backgroundImage: `url("data:image/svg+xml,%3csvg width='20' height='20' viewBox='0 0 20 20' xmlns='http://www.w3.org/2000/svg'%3e%3cg fill='%23000' fill-opacity='0.1' fill-rule='evenodd'%3e%3crect width='10' height='10'/%3e%3crect x='10' y='10' width='10' height='10'/%3e%3c/g%3e%3c/svg%3e")`,
+          }} />
+          {isLoading && <Loader2 className="h-8 w-8 animate-spin text-muted-foreground absolute" />}
+          <canvas
+            ref={canvasRef}
+            className="relative max-w-full max-h-full touch-none"
+            style={{
+              transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+              cursor: tool === 'pan' ? 'grab' : 'crosshair',
+              imageRendering: zoom > 2 ? 'pixelated' : 'auto'
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={handleClearEdits} disabled={isLoading}>
+            Clear edits
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isLoading}>
+              Apply edits
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefinementEditor;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Eraser, ShieldCheck, Wand2, X } from 'lucide-react';
+import { DEFAULT_SEED_TOLERANCE, FloodSeed, SeedMode } from '@/utils/floodSeeds';
+
+interface SeedPickerProps {
+  imageUrl: string;
+  seeds: FloodSeed[];
+  onChange: (seeds: FloodSeed[]) => void;
+  disabled?: boolean;
+}
+
+const seedColors: Record<SeedMode, string> = {
+  background: 'bg-red-500',
+  keep: 'bg-green-500'
+};
+
+const seedLabels: Record<SeedMode, string> = {
+  background: 'Background',
+  keep: 'Keep'
+};
+
+const createSeedId = () => Math.random().toString(36).slice(2, 10);
+
+const SeedRow = ({ seed, index, onChange, onRemove, disabled }: {
+  seed: FloodSeed;
+  index: number;
+  onChange: (seed: FloodSeed) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}) => {
+  const [tolerance, setTolerance] = useState(seed.tolerance);
+
+  return (
+    <div className="flex items-center gap-3 p-2 border rounded-lg">
+      <span className={`h-3 w-3 rounded-full flex-shrink-0 ${seedColors[seed.mode]}`} />
+      <span className="text-sm w-28 flex-shrink-0">{seedLabels[seed.mode]} #{index + 1}</span>
+      <Slider
+        min={0}
+        max={150}
+        step={1}
+        value={[tolerance]}
+        onValueChange={([value]) => setTolerance(value)}
+        onValueCommit={([value]) => onChange({ ...seed, tolerance: value })}
+        disabled={disabled}
+        aria-label="Seed tolerance"
+      />
+      <span className="text-sm text-muted-foreground w-8 text-right tabular-nums">{tolerance}</span>
+      <Button variant="ghost" size="sm" onClick={onRemove} disabled={disabled} aria-label="Remove seed">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+// Click on the image to place magic wand seeds for the algorithms that support them
+const SeedPicker = ({ imageUrl, seeds, onChange, disabled }: SeedPickerProps) => {
+  const [mode, setMode] = useState<SeedMode>('background');
+  const [tolerance, setTolerance] = useState(DEFAULT_SEED_TOLERANCE);
+
+  const handleImageClick = (event: React.MouseEvent<HTMLImageElement>) => {
+    if (disabled) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const seed: FloodSeed = {
+      id: createSeedId(),
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+      mode,
+      tolerance
+    };
+
+    onChange([...seeds, seed]);
+  };
+
+  const removeSeed = (id: string) => {
+    onChange(seeds.filter(seed => seed.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <ToggleGroup type="single" value={mode} onValueChange={(value) => value && setMode(value as SeedMode)}>
+          <ToggleGroupItem value="background" aria-label="Background seed">
+            <Eraser className="h-4 w-4 mr-1" />
+            Background
+          </ToggleGroupItem>
+          <ToggleGroupItem value="keep" aria-label="Keep seed">
+            <ShieldCheck className="h-4 w-4 mr-1" />
+            Keep
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        <div className="w-48 space-y-2">
+          <Label className="text-sm">New seed tolerance: {tolerance}</Label>
+          <Slider min={0} max={150} step={1} value={[tolerance]} onValueChange={([value]) => setTolerance(value)} />
+        </div>
+      </div>
+
+      <div className="flex justify-center">
+        <div className="relative inline-block bg-white border rounded-lg overflow-hidden">
+          <img
+            src={imageUrl}
+            alt="Original"
+            className={`block max-w-full max-h-96 ${disabled ? '' : 'cursor-crosshair'}`}
+            onClick={handleImageClick}
+          />
+          {seeds.map(seed => (
+            <button
+              key={seed.id}
+              type="button"
+              className={`absolute h-4 w-4 -ml-2 -mt-2 rounded-full border-2 border-white shadow ${seedColors[seed.mode]}`}
+              style={{ left: `${seed.x * 100}%`, top: `${seed.y * 100}%` }}
+              onClick={() => removeSeed(seed.id)}
+              disabled={disabled}
+              title="Remove seed"
+            />
+          ))}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground flex items-center gap-2">
+        <Wand2 className="h-4 w-4 flex-shrink-0" />
+        {seeds.length === 0
+          ? 'Click the image to flood-fill the background from that point instead of the corners. Click a marker to remove it.'
+          : 'Seeds apply to the algorithms that use flood fill. Click a marker to remove it.'}
+      </p>
+
+      {seeds.length > 0 && (
+        <div className="space-y-2">
+          {seeds.map((seed, index) => (
+            <SeedRow
+              key={seed.id}
+              seed={seed}
+              index={index}
+              onChange={(updated) => onChange(seeds.map(existing => existing.id === updated.id ? updated : existing))}
+              onRemove={() => removeSeed(seed.id)}
+              disabled={disabled}
+            />
+          ))}
+          <Button variant="outline" size="sm" onClick={() => onChange([])} disabled={disabled}>
+            Clear seeds
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeedPicker;
@@ -0,0 +1,11 @@
+import * as React from "react"
+
+import { getBackendPreference, getModelStatuses, subscribeToModelStatus } from "@/utils/modelManager"
+
+export function useModelStatuses() {
+  return React.useSyncExternalStore(subscribeToModelStatus, getModelStatuses)
+}
+
+export function useBackendPreference() {
+  return React.useSyncExternalStore(subscribeToModelStatus, getBackendPreference)
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { coerceOptionValue, findOptionSchema, getAlgorithm, resolveAlgorithmOptions, InvalidOptionError } from './algorithms';
+import type { AlgorithmOptionSchema } from './algorithms';
+
+const numberSchema: AlgorithmOptionSchema = { key: 'tolerance', label: 'Tolerance', type: 'number', min: 0, max: 100, step: 1 };
+const booleanSchema: AlgorithmOptionSchema = { key: 'defringe', label: 'Defringe', type: 'boolean' };
+
+describe('coerceOptionValue', () => {
+  it('accepts numbers and numeric strings within range', () => {
+    expect(coerceOptionValue(numberSchema, 40)).toBe(40);
+    expect(coerceOptionValue(numberSchema, ' 12.5 ')).toBe(12.5);
+  });
+
+  it('rejects numbers that are out of range or not numbers', () => {
+    for (const value of [101, -1, '', 'abc', true, null]) {
+      expect(() => coerceOptionValue(numberSchema, value)).toThrow(InvalidOptionError);
+    }
+  });
+
+  it('accepts the usual spellings of booleans', () => {
+    for (const value of [true, 'true', '1', 'on']) expect(coerceOptionValue(booleanSchema, value)).toBe(true);
+    for (const value of [false, 'false', '0', 'off']) expect(coerceOptionValue(booleanSchema, value)).toBe(false);
+    expect(() => coerceOptionValue(booleanSchema, 'yes')).toThrow(InvalidOptionError);
+  });
+});
+
+describe('resolveAlgorithmOptions', () => {
+  const gimp = getAlgorithm('gimp')!;
+
+  it('coerces options of the algorithm and of post-processing', () => {
+    expect(resolveAlgorithmOptions(gimp, { colorTolerance: '40', defringe: 'true' })).toEqual({ colorTolerance: 40, defringe: true });
+    expect(findOptionSchema(gimp, 'refineRadius')?.type).toBe('number');
+  });
+
+  it('rejects unknown options', () => {
+    expect(() => resolveAlgorithmOptions(gimp, { nonsense: 1 })).toThrow(/no option "nonsense"/);
+  });
+
+  it('parses seeds given as JSON', () => {
+    const { seeds } = resolveAlgorithmOptions(gimp, { seeds: '[{"x":0.5,"y":0,"mode":"keep"}]' });
+    expect(seeds).toEqual([{ id: 'seed-1', x: 0.5, y: 0, mode: 'keep', tolerance: 30 }]);
+  });
+
+  it('rejects malformed seeds', () => {
+    expect(() => resolveAlgorithmOptions(gimp, { seeds: 'not json' })).toThrow(InvalidOptionError);
+    expect(() => resolveAlgorithmOptions(gimp, { seeds: [{ x: 2, y: 0 }] })).toThrow(InvalidOptionError);
+  });
+});
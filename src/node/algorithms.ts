@@ -0,0 +1,85 @@
+// Algorithms available to the Node entry points. Only the pure pixel kernels are
+// registered: they need no browser and no network, whereas the model algorithms
+// depend on onnxruntime-web and would pull in transformers.js.
+import { registerAlgorithm, AlgorithmDefinition, AlgorithmOptionSchema } from '../utils/algorithmRegistry';
+import { postProcessingSchema } from '../utils/postProcessing';
+import { DEFAULT_SEED_TOLERANCE, FloodSeed } from '../utils/floodSeeds';
+import { iconAlgorithm } from '../utils/iconBackgroundRemoval';
+import { gimpAlgorithm } from '../utils/gimpAlgorithm';
+import { colorToAlphaAlgorithm } from '../utils/colorToAlphaAlgorithm';
+import { gradientAlgorithm } from '../utils/gradientAlgorithm';
+import { inkscapeAlgorithm } from '../utils/inkscapeAlgorithm';
+import { checkerboardAlgorithm } from '../utils/checkerboardAlgorithm';
+
+registerAlgorithm(iconAlgorithm);
+registerAlgorithm(gimpAlgorithm);
+registerAlgorithm(colorToAlphaAlgorithm);
+registerAlgorithm(gradientAlgorithm);
+registerAlgorithm(inkscapeAlgorithm);
+registerAlgorithm(checkerboardAlgorithm);
+
+export { getAlgorithm, getRegisteredAlgorithms } from '../utils/algorithmRegistry';
+export type { AlgorithmDefinition, AlgorithmOptionSchema } from '../utils/algorithmRegistry';
+
+// Schema of an option of the algorithm itself or of the shared post-processing stages
+export const findOptionSchema = (definition: AlgorithmDefinition, key: string): AlgorithmOptionSchema | undefined => {
+  return [...definition.optionsSchema, ...postProcessingSchema].find(option => option.key === key);
+};
+
+export class InvalidOptionError extends Error {}
+
+// Accepts typed JSON values as well as the strings that come from query strings, forms and flags
+export const coerceOptionValue = (schema: AlgorithmOptionSchema, value: unknown): number | boolean => {
+  if (schema.type === 'boolean') {
+    if (value === true || value === 'true' || value === '1' || value === 'on') return true;
+    if (value === false || value === 'false' || value === '0' || value === 'off') return false;
+    throw new InvalidOptionError(`${schema.key} expects true or false, got ${JSON.stringify(value)}`);
+  }
+
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (!Number.isFinite(number) || number < schema.min || number > schema.max) {
+    throw new InvalidOptionError(`${schema.key} expects a number from ${schema.min} to ${schema.max}, got ${JSON.stringify(value)}`);
+  }
+  return number;
+};
+
+// Magic wand seeds, positioned as fractions of the image size like the ones clicked in the app
+const coerceSeeds = (value: unknown): FloodSeed[] => {
+  let seeds = value;
+  if (typeof value === 'string') {
+    try {
+      seeds = JSON.parse(value);
+    } catch {
+      throw new InvalidOptionError('seeds must be a JSON array');
+    }
+  }
+  if (!Array.isArray(seeds)) throw new InvalidOptionError('seeds must be an array');
+
+  return seeds.map((seed, index) => {
+    const { x, y, mode = 'background', tolerance = DEFAULT_SEED_TOLERANCE } = seed ?? {};
+    const valid = typeof x === 'number' && typeof y === 'number' && x >= 0 && x <= 1 && y >= 0 && y <= 1 &&
+      (mode === 'background' || mode === 'keep') && typeof tolerance === 'number';
+    if (!valid) {
+      throw new InvalidOptionError(`seeds[${index}] needs x and y from 0 to 1, a mode of background or keep and a numeric tolerance`);
+    }
+    return { id: `seed-${index + 1}`, x, y, mode, tolerance };
+  });
+};
+
+// Validates options given by key against the algorithm's schema, rejecting unknown keys
+export const resolveAlgorithmOptions = (definition: AlgorithmDefinition, values: Record<string, unknown>): Record<string, unknown> => {
+  const options: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    if (key === 'seeds' && definition.supportsSeeds) {
+      options.seeds = coerceSeeds(value);
+      continue;
+    }
+
+    const schema = findOptionSchema(definition, key);
+    if (!schema) throw new InvalidOptionError(`${definition.id} has no option "${key}"`);
+    options[key] = coerceOptionValue(schema, value);
+  }
+
+  return options;
+};
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { expandGlob, globToRegExp, hasGlobMagic, GlobPatternError } from './glob';
+
+describe('globToRegExp', () => {
+  it('matches within a folder with * and ?, and across folders with **', () => {
+    expect(globToRegExp('*.png').test('icon.png')).toBe(true);
+    expect(globToRegExp('*.png').test('sub/icon.png')).toBe(false);
+    expect(globToRegExp('icon-?.png').test('icon-1.png')).toBe(true);
+    expect(globToRegExp('**/*.png').test('icon.png')).toBe(true);
+    expect(globToRegExp('**/*.png').test('a/b/icon.png')).toBe(true);
+  });
+
+  it('expands alternatives in braces', () => {
+    const matcher = globToRegExp('*.{png,jpg}');
+    expect(matcher.test('icon.png')).toBe(true);
+    expect(matcher.test('icon.jpg')).toBe(true);
+    expect(matcher.test('icon.gif')).toBe(false);
+  });
+
+  it('treats commas outside braces as part of the name', () => {
+    const matcher = globToRegExp('a,b*.png');
+    expect(matcher.test('a,b1.png')).toBe(true);
+    expect(matcher.test('a')).toBe(false);
+    expect(matcher.test('b1.png')).toBe(false);
+  });
+
+  it('matches square brackets literally', () => {
+    const matcher = globToRegExp('icon[1]*.png');
+    expect(matcher.test('icon[1]-large.png')).toBe(true);
+    expect(matcher.test('icon1-large.png')).toBe(false);
+    expect(globToRegExp('[a*.png').test('[a1.png')).toBe(true);
+  });
+
+  it('rejects unbalanced braces', () => {
+    expect(() => globToRegExp('*.{png,jpg')).toThrow(GlobPatternError);
+    expect(() => globToRegExp('*.png}')).toThrow(GlobPatternError);
+  });
+});
+
+describe('hasGlobMagic', () => {
+  it('tells patterns from plain paths', () => {
+    expect(hasGlobMagic('icons/*.png')).toBe(true);
+    expect(hasGlobMagic('icons/a,b.png')).toBe(false);
+    expect(hasGlobMagic('icons/icon[1].png')).toBe(false);
+  });
+});
+
+describe('expandGlob', () => {
+  let folder: string;
+
+  beforeEach(async () => {
+    folder = await mkdtemp(path.join(tmpdir(), 'glob-'));
+    await Promise.all(['icon[1].png', 'icon1.png', 'notes.txt'].map(name => writeFile(path.join(folder, name), '')));
+  });
+
+  afterEach(async () => {
+    await rm(folder, { recursive: true, force: true });
+  });
+
+  it('lists the matching files under the folder', async () => {
+    expect(await expandGlob(path.join(folder, 'icon[1]*'))).toEqual([path.join(folder, 'icon[1].png')]);
+  });
+
+  it('names a folder that does not exist', async () => {
+    await expect(expandGlob(path.join(folder, 'missing', '*.png'))).rejects.toThrow(GlobPatternError);
+    await expect(expandGlob(path.join(folder, 'missing', '*.png'))).rejects.toThrow(/Folder not found/);
+  });
+});
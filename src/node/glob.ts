@@ -0,0 +1,58 @@
+// Glob expansion for the CLI inputs. Supports *, ?, ** and {a,b}, which covers what
+// shells do not expand for us (e.g. on Windows); every other character, brackets included, is literal.
+import { readdir } from 'node:fs/promises';
+import path from 'node:path';
+
+export class GlobPatternError extends Error {}
+
+export const hasGlobMagic = (pattern: string) => /[*?{}]/.test(pattern);
+
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  // Commas only separate alternatives inside braces; elsewhere they are part of the name
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}') {
+      if (braces === 0) throw new GlobPatternError(`Unmatched "}" in ${pattern}`);
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  if (braces > 0) throw new GlobPatternError(`Unmatched "{" in ${pattern}`);
+  return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+};
+
+export const expandGlob = async (pattern: string): Promise<string[]> => {
+  const normalized = pattern.split(path.sep).join('/');
+  const segments = normalized.split('/');
+  const firstMagic = segments.findIndex(hasGlobMagic);
+  const base = segments.slice(0, firstMagic).join('/') || '.';
+  const matcher = globToRegExp(segments.slice(firstMagic).join('/'));
+
+  const entries = await readdir(base, { recursive: true, withFileTypes: true }).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT' || error.code === 'ENOTDIR') throw new GlobPatternError(`Folder not found: ${base}`);
+    throw error;
+  });
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => path.relative(base, path.join(entry.parentPath ?? entry.path, entry.name)).split(path.sep).join('/'))
+    .filter(relative => matcher.test(relative))
+    .map(relative => path.join(base, relative))
+    .sort();
+};
@@ -0,0 +1,20 @@
+// Image decoding and PNG encoding for the Node entry points, where there is no canvas.
+// sharp reads PNG, JPEG, WebP, GIF, AVIF, TIFF and SVG.
+import sharp from 'sharp';
+import { createPixelBuffer, PixelBuffer } from '../utils/pixelBuffer';
+
+export const decodeImage = async (input: string | Buffer): Promise<PixelBuffer> => {
+  const { data, info } = await sharp(input).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return createPixelBuffer(info.width, info.height, new Uint8ClampedArray(data.buffer, data.byteOffset, data.length));
+};
+
+export const encodePng = (image: PixelBuffer): Promise<Buffer> => {
+  const data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length);
+  return sharp(data, { raw: { width: image.width, height: image.height, channels: 4 } }).png().toBuffer();
+};
+
+// The alpha mask as a greyscale PNG, white where the foreground is kept
+export const encodeMaskPng = (alpha: Uint8ClampedArray, width: number, height: number): Promise<Buffer> => {
+  const data = Buffer.from(alpha.buffer, alpha.byteOffset, alpha.length);
+  return sharp(data, { raw: { width, height, channels: 1 } }).toColourspace('b-w').png().toBuffer();
+};
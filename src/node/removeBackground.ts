@@ -0,0 +1,270 @@
+// Command-line batch removal for folders of icons and other flat artwork.
+// Runs the colour-based pixel kernels through the DOM-free core, so it needs neither
+// a browser nor network access; the model-based algorithms are only available in the app.
+//
+//   npm run build:cli
+//   node dist-node/removeBackground.js "icons/**/*.png" -o out -a icon,gimp --set tolerance=40
+import { inspect, parseArgs } from 'node:util';
+import { mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getAlgorithm, getRegisteredAlgorithms, coerceOptionValue, findOptionSchema, AlgorithmDefinition, InvalidOptionError } from './algorithms';
+import { decodeImage, encodePng } from './images';
+import { expandGlob, hasGlobMagic, GlobPatternError } from './glob';
+import { removeBackgroundFromPixels } from '../utils/removalCore';
+import { postProcessingSchema } from '../utils/postProcessing';
+import type { PixelBuffer } from '../utils/pixelBuffer';
+import { isAbortError } from '../utils/abort';
+
+const DEFAULT_ALGORITHMS = ['icon'];
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.gif', '.avif', '.tif', '.tiff', '.svg']);
+
+const USAGE = `Usage: removeBackground <files, folders or globs...> -o <output dir> [options]
+
+Options:
+  -o, --output <dir>          Where the transparent PNGs are written (required)
+  -a, --algorithm <ids>       Comma-separated algorithm ids (default: ${DEFAULT_ALGORITHMS.join(',')})
+  -s, --set <key=value>       Algorithm option, repeatable; prefix with an id to target
+                              one algorithm, e.g. --set gimp.colorTolerance=40
+  -v, --verbose               Show the algorithms' own progress and error logs
+  -l, --list                  List the algorithms and their options
+  -h, --help                  Show this help
+
+With one algorithm each input is written as <name>.png, with several as <name>.<algorithm>.png;
+inputs that share a name get a counter, e.g. <name>-2.png.`;
+
+interface FileSummary {
+  file: string;
+  algorithm: string;
+  status: 'ok' | 'failed';
+  output?: string;
+  size?: string;
+  // Share of fully transparent pixels in the output
+  transparent?: number;
+  milliseconds?: number;
+  error?: string;
+}
+
+class UsageError extends Error {}
+
+const write = (line = '') => process.stdout.write(`${line}\n`);
+const writeError = (line: string) => process.stderr.write(`${line}\n`);
+
+const isImageFile = (file: string) => IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase());
+
+const collectInputs = async (patterns: string[]): Promise<string[]> => {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (hasGlobMagic(pattern)) {
+      const matches = (await expandGlob(pattern)).filter(isImageFile);
+      if (matches.length === 0) console.warn(`No images match ${pattern}`);
+      matches.forEach(file => files.add(file));
+      continue;
+    }
+
+    const stats = await stat(pattern).catch(() => null);
+    if (!stats) throw new UsageError(`Input not found: ${pattern}`);
+
+    if (stats.isDirectory()) {
+      const entries = await readdir(pattern);
+      entries.filter(isImageFile).sort().forEach(entry => files.add(path.join(pattern, entry)));
+    } else {
+      files.add(pattern);
+    }
+  }
+
+  return [...files];
+};
+
+// Resolves --set flags into an options object per algorithm, rejecting keys no selected algorithm knows
+const resolveOptions = (algorithms: AlgorithmDefinition[], settings: string[]): Map<string, Record<string, unknown>> => {
+  const options = new Map(algorithms.map(definition => [definition.id, {} as Record<string, unknown>]));
+
+  for (const setting of settings) {
+    const separator = setting.indexOf('=');
+    if (separator <= 0) throw new UsageError(`Options are given as key=value, got "${setting}"`);
+
+    const name = setting.slice(0, separator);
+    const raw = setting.slice(separator + 1);
+    const dot = name.indexOf('.');
+    const scope = dot >= 0 ? name.slice(0, dot) : undefined;
+    const key = dot >= 0 ? name.slice(dot + 1) : name;
+
+    if (scope && !options.has(scope)) throw new UsageError(`"${scope}" is not one of the selected algorithms`);
+
+    let applied = false;
+    for (const definition of algorithms) {
+      if (scope && definition.id !== scope) continue;
+
+      const schema = findOptionSchema(definition, key);
+      if (!schema) continue;
+
+      options.get(definition.id)[key] = coerceOptionValue(schema, raw);
+      applied = true;
+    }
+
+    if (!applied) throw new UsageError(`Unknown option "${name}"; run with --list to see the options`);
+  }
+
+  return options;
+};
+
+// Inputs from different folders or with different extensions can share a name, so later ones get a counter
+const outputPath = (outputDir: string, file: string, algorithm: string, multiple: boolean, used: Set<string>) => {
+  const stem = path.basename(file, path.extname(file));
+  const suffix = multiple ? `.${algorithm}.png` : '.png';
+  let output = path.join(outputDir, `${stem}${suffix}`);
+  for (let counter = 2; used.has(output); counter++) output = path.join(outputDir, `${stem}-${counter}${suffix}`);
+  used.add(output);
+  return output;
+};
+
+const printAlgorithms = () => {
+  for (const definition of getRegisteredAlgorithms()) {
+    write(`${definition.id} - ${definition.name}: ${definition.description}`);
+    for (const option of definition.optionsSchema) {
+      const range = option.type === 'number' ? `${option.min}-${option.max}` : 'true|false';
+      write(`    ${option.key} (${range}, default ${definition.defaultOptions[option.key]}) ${option.label}`);
+    }
+  }
+
+  write();
+  write('Post-processing, available to every algorithm:');
+  for (const option of postProcessingSchema) {
+    const range = option.type === 'number' ? `${option.min}-${option.max}` : 'true|false';
+    write(`    ${option.key} (${range}) ${option.label}`);
+  }
+};
+
+const printSummary = (rows: FileSummary[]) => {
+  const table = [
+    ['File', 'Algorithm', 'Status', 'Size', 'Transparent', 'Time'],
+    ...rows.map(row => [
+      row.file,
+      row.algorithm,
+      row.status === 'ok' ? 'ok' : `failed: ${row.error}`,
+      row.size ?? '',
+      row.transparent === undefined ? '' : `${(row.transparent * 100).toFixed(1)}%`,
+      row.milliseconds === undefined ? '' : `${row.milliseconds} ms`
+    ])
+  ];
+  const widths = table[0].map((_, column) => Math.max(...table.map(cells => cells[column].length)));
+
+  write();
+  table.forEach(cells => write(cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()));
+
+  const failed = rows.filter(row => row.status === 'failed').length;
+  write();
+  write(`${rows.length - failed} of ${rows.length} succeeded${failed ? `, ${failed} failed` : ''}`);
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      algorithm: { type: 'string', short: 'a' },
+      set: { type: 'string', short: 's', multiple: true },
+      verbose: { type: 'boolean', short: 'v' },
+      list: { type: 'boolean', short: 'l' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    write(USAGE);
+    return 0;
+  }
+
+  if (values.list) {
+    printAlgorithms();
+    return 0;
+  }
+
+  if (positionals.length === 0 || !values.output) throw new UsageError('Input files and --output are required');
+
+  const algorithmIds = values.algorithm ? values.algorithm.split(',').map(id => id.trim()).filter(Boolean) : DEFAULT_ALGORITHMS;
+  const algorithms = algorithmIds.map(id => {
+    const definition = getAlgorithm(id);
+    if (!definition) throw new UsageError(`Unknown algorithm "${id}"; run with --list to see the algorithms`);
+    return definition;
+  });
+  const options = resolveOptions(algorithms, values.set ?? []);
+
+  const files = await collectInputs(positionals);
+  if (files.length === 0) throw new UsageError('No input images found');
+
+  await mkdir(values.output, { recursive: true });
+
+  // The kernels log their progress and errors to the console, which would bury the summary;
+  // failures still show up in the progress lines and the summary
+  if (!values.verbose) console.log = console.warn = console.error = () => {};
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const rows: FileSummary[] = [];
+  const usedOutputs = new Set<string>();
+  for (const [index, file] of files.entries()) {
+    let image: PixelBuffer;
+    try {
+      image = await decodeImage(file);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      algorithms.forEach(definition => rows.push({ file, algorithm: definition.id, status: 'failed', error: message }));
+      write(`[${index + 1}/${files.length}] ${file}: could not read (${message})`);
+      continue;
+    }
+
+    for (const definition of algorithms) {
+      const started = performance.now();
+      try {
+        const { image: result, alpha } = await removeBackgroundFromPixels(image, definition, options.get(definition.id), controller.signal);
+        const output = outputPath(values.output, file, definition.id, algorithms.length > 1, usedOutputs);
+        await writeFile(output, await encodePng(result));
+
+        const transparent = alpha.reduce((count, value) => count + (value === 0 ? 1 : 0), 0) / alpha.length;
+        rows.push({
+          file,
+          algorithm: definition.id,
+          status: 'ok',
+          output,
+          size: `${result.width}x${result.height}`,
+          transparent,
+          milliseconds: Math.round(performance.now() - started)
+        });
+        write(`[${index + 1}/${files.length}] ${file} (${definition.id}) -> ${output}`);
+      } catch (error) {
+        if (isAbortError(error)) {
+          write('Cancelled');
+          printSummary(rows);
+          return 130;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        rows.push({ file, algorithm: definition.id, status: 'failed', error: message });
+        write(`[${index + 1}/${files.length}] ${file} (${definition.id}) failed: ${message}`);
+      }
+    }
+  }
+
+  printSummary(rows);
+  return rows.some(row => row.status === 'failed') ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    if (
+      error instanceof UsageError ||
+      error instanceof InvalidOptionError ||
+      error instanceof GlobPatternError ||
+      (error as { code?: string }).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION'
+    ) {
+      writeError(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    // The console may have been silenced for the kernels
+    writeError(inspect(error));
+    process.exit(1);
+  });
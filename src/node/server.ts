@@ -0,0 +1,245 @@
+// Local HTTP API over the same algorithm code as the app, for scripts and other tools.
+// Only the colour-based algorithms are served, so it runs fully offline.
+//
+//   npm run serve:api -- --port 3210
+//
+//   GET  /algorithms   registered algorithms with their option schemas
+//   POST /remove       an image, either as the raw request body with parameters in the
+//                      query string, or as multipart/form-data with an "image" file.
+//                      Parameters: algorithm (default icon), output=png|mask, options
+//                      as a JSON object, or individual options such as tolerance=40.
+//                      Returns the transparent PNG, or the alpha mask as a greyscale PNG.
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { getAlgorithm, getRegisteredAlgorithms, resolveAlgorithmOptions, InvalidOptionError } from './algorithms';
+import { decodeImage, encodeMaskPng, encodePng } from './images';
+import { removeBackgroundFromPixels } from '../utils/removalCore';
+import { postProcessingSchema, DEFAULT_POST_PROCESSING_OPTIONS } from '../utils/postProcessing';
+import { isAbortError } from '../utils/abort';
+import type { PixelBuffer } from '../utils/pixelBuffer';
+
+const DEFAULT_PORT = 3210;
+const DEFAULT_ALGORITHM = 'icon';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+// Request parameters that are not algorithm options
+const RESERVED_PARAMETERS = new Set(['algorithm', 'output', 'options', 'image']);
+
+type OutputKind = 'png' | 'mask';
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+interface RemoveRequest {
+  image: Buffer;
+  parameters: Map<string, string>;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Discard the rest of the upload rather than destroying the socket, which would
+        // take the 413 response down with it; Node closes the connection once it is sent
+        req.off('data', onData);
+        req.unpipe();
+        req.resume();
+        reject(new HttpError(413, `Images are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB`, { Connection: 'close' }));
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+};
+
+// Query string parameters apply to both request styles; form fields override them
+const parseRemoveRequest = async (req: IncomingMessage, url: URL): Promise<RemoveRequest> => {
+  const parameters = new Map(url.searchParams);
+  const contentType = req.headers['content-type'] ?? '';
+  const body = await readBody(req);
+
+  if (!contentType.startsWith('multipart/form-data')) {
+    if (body.length === 0) throw new HttpError(400, 'The request body must contain an image');
+    return { image: body, parameters };
+  }
+
+  // The fetch API's Request parses multipart bodies, so no form library is needed
+  const form = await new Request('http://localhost/', { method: 'POST', headers: { 'Content-Type': contentType }, body })
+    .formData()
+    .catch(() => {
+      throw new HttpError(400, 'Malformed multipart body');
+    });
+
+  let image: Buffer | undefined;
+  for (const [key, value] of form.entries()) {
+    if (typeof value === 'string') {
+      parameters.set(key, value);
+    } else if (key === 'image') {
+      image = Buffer.from(await value.arrayBuffer());
+    }
+  }
+
+  if (!image) throw new HttpError(400, 'The form must contain an "image" file');
+  return { image, parameters };
+};
+
+const parseOptions = (parameters: Map<string, string>): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+
+  for (const [key, value] of parameters) {
+    if (!RESERVED_PARAMETERS.has(key)) values[key] = value;
+  }
+
+  const json = parameters.get('options');
+  if (json) {
+    let options: unknown;
+    try {
+      options = JSON.parse(json);
+    } catch {
+      throw new HttpError(400, 'options must be a JSON object');
+    }
+    if (!options || typeof options !== 'object' || Array.isArray(options)) {
+      throw new HttpError(400, 'options must be a JSON object');
+    }
+    Object.assign(values, options);
+  }
+
+  return values;
+};
+
+const handleAlgorithms = (res: ServerResponse) => {
+  sendJson(res, 200, {
+    algorithms: getRegisteredAlgorithms().map(definition => ({
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      defaultOptions: definition.defaultOptions,
+      optionsSchema: definition.optionsSchema,
+      supportsSeeds: definition.supportsSeeds ?? false
+    })),
+    // Available to every algorithm through the same options
+    postProcessing: {
+      defaultOptions: DEFAULT_POST_PROCESSING_OPTIONS,
+      optionsSchema: postProcessingSchema
+    }
+  });
+};
+
+const handleRemove = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const { image, parameters } = await parseRemoveRequest(req, url);
+
+  const algorithm = parameters.get('algorithm') || DEFAULT_ALGORITHM;
+  const definition = getAlgorithm(algorithm);
+  if (!definition) throw new HttpError(400, `Unknown algorithm "${algorithm}"; see GET /algorithms`);
+
+  const output = (parameters.get('output') || 'png') as OutputKind;
+  if (output !== 'png' && output !== 'mask') throw new HttpError(400, 'output must be png or mask');
+
+  const options = resolveAlgorithmOptions(definition, parseOptions(parameters));
+
+  let pixels: PixelBuffer;
+  try {
+    pixels = await decodeImage(image);
+  } catch (error) {
+    throw new HttpError(415, `Could not decode the image: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // Stop working on requests whose client has gone away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const started = performance.now();
+  let result: Awaited<ReturnType<typeof removeBackgroundFromPixels>>;
+  try {
+    result = await removeBackgroundFromPixels(pixels, definition, options, controller.signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // The algorithm rejected this image, e.g. no checkerboard was found
+    throw new HttpError(422, error instanceof Error ? error.message : String(error));
+  }
+
+  const png = output === 'mask'
+    ? await encodeMaskPng(result.alpha, result.image.width, result.image.height)
+    : await encodePng(result.image);
+
+  res.writeHead(200, {
+    'Content-Type': 'image/png',
+    'Content-Length': png.length,
+    'X-Algorithm': definition.id,
+    'X-Processing-Time': `${Math.round(performance.now() - started)}ms`
+  });
+  res.end(png);
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const started = performance.now();
+
+  try {
+    if (url.pathname === '/algorithms') {
+      if (req.method !== 'GET') throw new HttpError(405, 'Use GET /algorithms');
+      handleAlgorithms(res);
+    } else if (url.pathname === '/remove') {
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST /remove');
+      await handleRemove(req, res, url);
+    } else {
+      throw new HttpError(404, `No route for ${url.pathname}`);
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      // The client disconnected, so there is nobody to answer
+      res.destroy();
+    } else if (error instanceof HttpError || error instanceof InvalidOptionError) {
+      const [status, headers] = error instanceof HttpError ? [error.status, error.headers] : [400, {}];
+      sendJson(res, status, { error: error.message }, headers);
+    } else {
+      console.error(error);
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+    }
+  } finally {
+    process.stdout.write(`${req.method} ${url.pathname} ${res.statusCode} ${Math.round(performance.now() - started)}ms\n`);
+  }
+};
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', short: 'p' },
+    host: { type: 'string' },
+    verbose: { type: 'boolean', short: 'v' }
+  }
+});
+
+const port = Number(values.port ?? process.env.PORT ?? DEFAULT_PORT);
+// Local only unless a host is given explicitly
+const host = values.host ?? '127.0.0.1';
+
+// The kernels log their progress to the console, which would drown the request log
+if (!values.verbose) console.log = () => {};
+
+const server = createServer((req, res) => {
+  void handleRequest(req, res);
+});
+
+server.listen(port, host, () => {
+  process.stdout.write(`Background removal API listening on http://${host}:${port}\n`);
+  process.stdout.write(`Algorithms: ${getRegisteredAlgorithms().map(definition => definition.id).join(', ')}\n`);
+});
+
+process.once('SIGINT', () => server.close(() => process.exit(0)));
@@ -0,0 +1,19 @@
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import BenchmarkRunner from '@/components/BenchmarkRunner';
+
+const Benchmark = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
+      <div className="container mx-auto py-8">
+        <Link to="/" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 px-6">
+          <ArrowLeft className="h-4 w-4" />
+          Back to the remover
+        </Link>
+        <BenchmarkRunner />
+      </div>
+    </div>
+  );
+};
+
+export default Benchmark;
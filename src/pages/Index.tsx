@@ -1,10 +1,18 @@
 
+import { Link } from 'react-router-dom';
+import { BarChart3 } from 'lucide-react';
 import BackgroundRemover from '@/components/BackgroundRemover';
 
 const Index = () => {
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
       <div className="container mx-auto py-8">
+        <div className="flex justify-end px-6">
+          <Link to="/benchmark" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800">
+            <BarChart3 className="h-4 w-4" />
+            Benchmark
+          </Link>
+        </div>
         <BackgroundRemover />
       </div>
     </div>
@@ -0,0 +1,53 @@
+// Helpers for cancelling in-flight processing with an AbortSignal
+
+export const createAbortError = (): DOMException => {
+  return new DOMException('Processing was cancelled', 'AbortError');
+};
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// Stops waiting for work that cannot itself be interrupted, such as a model load
+export const raceWithAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+// Aborts when any of the given signals does, like AbortSignal.any in newer browsers
+export const combineSignals = (...signals: (AbortSignal | undefined)[]): AbortSignal => {
+  const controller = new AbortController();
+
+  for (const signal of signals) {
+    if (!signal) continue;
+
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+
+  return controller.signal;
+};
@@ -0,0 +1,48 @@
+// General purpose AI algorithm using the RMBG-1.4 segmentation model
+import { segmentImage, RMBG_MODEL } from './modelManager';
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { createPixelBuffer, downscalePixelBuffer, PixelBuffer } from './pixelBuffer';
+import { normalizeMask, upsampleMask } from './maskUpsampling';
+
+const MAX_IMAGE_DIMENSION = 1024;
+
+export const aiBackgroundRemoval = async (image: PixelBuffer, signal?: AbortSignal): Promise<PixelBuffer> => {
+  console.log('Using AI model for background removal...');
+  throwIfAborted(signal);
+
+  const input = downscalePixelBuffer(image, MAX_IMAGE_DIMENSION);
+  console.log(`Image ${input !== image ? 'was' : 'was not'} resized. Final dimensions: ${input.width}x${input.height}`);
+
+  console.log('Processing with background removal model...');
+  const result = await segmentImage(RMBG_MODEL, input, signal);
+
+  console.log('Background removal result:', result);
+
+  if (!result || !Array.isArray(result) || result.length === 0 || !result[0].mask) {
+    throw new Error('Invalid background removal result');
+  }
+
+  // Apply the mask to the original pixels rather than the downscaled copy
+  const output = createPixelBuffer(image.width, image.height, new Uint8ClampedArray(image.data));
+  const data = output.data;
+  const mask = upsampleMask(normalizeMask(result[0].mask), image, {}, signal);
+
+  for (let i = 0; i < mask.length; i++) {
+    const alpha = Math.round(mask[i] * 255);
+    data[i * 4 + 3] = alpha;
+  }
+
+  console.log('Background removed successfully');
+  return output;
+};
+
+export const aiAlgorithm: AlgorithmDefinition<Record<string, never>> = {
+  id: 'ai',
+  name: 'AI Algorithm',
+  description: 'General purpose AI model',
+  defaultOptions: {},
+  optionsSchema: [],
+  models: [RMBG_MODEL],
+  run: (image, _options, signal) => aiBackgroundRemoval(image, signal)
+};
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { iconAlgorithm } from './iconBackgroundRemoval';
+import { gimpAlgorithm } from './gimpAlgorithm';
+import { colorToAlphaAlgorithm } from './colorToAlphaAlgorithm';
+import { gradientAlgorithm } from './gradientAlgorithm';
+import { inkscapeAlgorithm } from './inkscapeAlgorithm';
+import { checkerboardAlgorithm } from './checkerboardAlgorithm';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+import type { AlgorithmDefinition } from './algorithmRegistry';
+
+const SIZE = 48;
+
+// A noisy light background with a soft-edged dark disc and a checkerboard corner, so
+// every option of the colour-based algorithms has something to act on
+const testImage = (): PixelBuffer => {
+  const image = createPixelBuffer(SIZE, SIZE);
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed % 21) - 10;
+  };
+
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const distance = Math.hypot(x - SIZE / 2, y - SIZE / 2);
+      const coverage = Math.min(1, Math.max(0, (SIZE / 4 - distance) / 3));
+      const checker = x < 12 && y < 12 && (Math.floor(x / 4) + Math.floor(y / 4)) % 2 === 0 ? -40 : 0;
+      const background = 230 + noise() + checker;
+      const value = Math.round(background * (1 - coverage) + 30 * coverage);
+      image.data.set([value, value - 10 * coverage, value, 255], (y * SIZE + x) * 4);
+    }
+  }
+
+  return image;
+};
+
+// Every option in the schema must change the output when moved away from its default
+const variants = (definition: AlgorithmDefinition) => definition.optionsSchema.map(schema => {
+  const current = (definition.defaultOptions as Record<string, unknown>)[schema.key];
+  const changed = schema.type === 'boolean'
+    ? !current
+    : (current as number) + (schema.max - schema.min) / 2 > schema.max
+      ? schema.min
+      : (current as number) + (schema.max - schema.min) / 2;
+  return [schema.key, changed] as const;
+});
+
+const algorithms: AlgorithmDefinition[] = [iconAlgorithm, gimpAlgorithm, colorToAlphaAlgorithm, gradientAlgorithm, inkscapeAlgorithm];
+const runs = algorithms
+  .flatMap(definition => variants(definition).map(([key, value]) => [definition, key, value] as const));
+
+describe('algorithm options', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each(runs.map(([definition, key, value]) => [definition.id, key, value, definition]))(
+    '%s reacts to %s',
+    (_id, key, value, definition) => {
+      const image = testImage();
+      const defaults = definition.processPixels!(image, definition.defaultOptions);
+      const changed = definition.processPixels!(image, { ...definition.defaultOptions, [key]: value });
+
+      expect(Array.from(changed.data)).not.toEqual(Array.from(defaults.data));
+    }
+  );
+
+  it('checkerboard reacts to its tolerance', () => {
+    const image = createPixelBuffer(SIZE, SIZE);
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        const light = (Math.floor(x / 6) + Math.floor(y / 6)) % 2 === 0;
+        const inSquare = x >= 16 && x < 32 && y >= 16 && y < 32;
+        image.data.set(inSquare ? [200, 210, 200, 255] : light ? [255, 255, 255, 255] : [204, 204, 204, 255], (y * SIZE + x) * 4);
+      }
+    }
+
+    const defaults = checkerboardAlgorithm.processPixels!(image, checkerboardAlgorithm.defaultOptions);
+    const changed = checkerboardAlgorithm.processPixels!(image, { tolerance: 100 });
+    expect(Array.from(changed.data)).not.toEqual(Array.from(defaults.data));
+  });
+});
+
+describe('keep seeds', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // White background with a white-ish patch in the top-left corner that would be removed with it
+  const cornerPatchImage = () => {
+    const image = createPixelBuffer(SIZE, SIZE);
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        image.data.set(x < 8 && y < 8 ? [245, 245, 245, 255] : [255, 255, 255, 255], (y * SIZE + x) * 4);
+      }
+    }
+    return image;
+  };
+
+  it.each([iconAlgorithm, gimpAlgorithm] as AlgorithmDefinition[])('$id protects a keep region without background seeds', (definition) => {
+    const image = cornerPatchImage();
+    const patch = (3 * SIZE + 3) * 4 + 3;
+    const seeds = [{ id: 'keep', x: 3 / SIZE, y: 3 / SIZE, mode: 'keep', tolerance: 5 }];
+
+    expect(definition.processPixels!(image, definition.defaultOptions).data[patch]).toBe(0);
+    const output = definition.processPixels!(image, { ...definition.defaultOptions, seeds });
+    expect(output.data[patch]).toBe(255);
+    expect(output.data[(30 * SIZE + 30) * 4 + 3]).toBe(0);
+  });
+});
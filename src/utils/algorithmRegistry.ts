@@ -0,0 +1,68 @@
+// Central registry of background removal algorithms. Built-in algorithms are
+// registered by backgroundRemoval.ts; custom removers can call registerAlgorithm
+// from their own modules and the UI and batch runner will pick them up.
+//
+// Algorithms work on plain RGBA buffers and return one with the alpha filled in.
+// An algorithm provides either `run`, for asynchronous work such as model inference,
+// or `processPixels`, a pure synchronous kernel that can be moved off the main thread.
+import type { PixelBuffer } from './pixelBuffer';
+
+export type AlgorithmOptionSchema =
+  | {
+      key: string;
+      label: string;
+      type: 'number';
+      min: number;
+      max: number;
+      step: number;
+      description?: string;
+    }
+  | {
+      key: string;
+      label: string;
+      type: 'boolean';
+      description?: string;
+    };
+
+export interface AlgorithmDefinition<TOptions extends object = object> {
+  id: string;
+  name: string;
+  description: string;
+  defaultOptions: TOptions;
+  optionsSchema: AlgorithmOptionSchema[];
+  // Ids of the models loaded through the model manager, if any
+  models?: string[];
+  // Accepts magic wand seeds clicked on the original image through a `seeds` option
+  supportsSeeds?: boolean;
+  // For algorithms that only handle certain images: runs over all algorithms skip the
+  // ones that return false instead of reporting them as failed
+  isApplicable?(image: PixelBuffer): boolean;
+  run?(image: PixelBuffer, options: TOptions, signal?: AbortSignal): Promise<PixelBuffer>;
+  processPixels?(image: PixelBuffer, options: TOptions, signal?: AbortSignal): PixelBuffer;
+}
+
+const registry = new Map<string, AlgorithmDefinition>();
+
+export const registerAlgorithm = <TOptions extends object>(definition: AlgorithmDefinition<TOptions>): void => {
+  if (registry.has(definition.id)) {
+    throw new Error(`Algorithm "${definition.id}" is already registered`);
+  }
+
+  if (!definition.run && !definition.processPixels) {
+    throw new Error(`Algorithm "${definition.id}" must provide run or processPixels`);
+  }
+
+  registry.set(definition.id, definition);
+};
+
+export const unregisterAlgorithm = (id: string): boolean => {
+  return registry.delete(id);
+};
+
+export const getAlgorithm = (id: string): AlgorithmDefinition | undefined => {
+  return registry.get(id);
+};
+
+export const getRegisteredAlgorithms = (): AlgorithmDefinition[] => {
+  return Array.from(registry.values());
+};
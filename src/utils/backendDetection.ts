@@ -0,0 +1,77 @@
+// Detection of the inference backends available to onnxruntime-web
+
+export type ModelBackend = 'webgpu' | 'wasm-threaded' | 'wasm';
+
+export interface BackendSupport {
+  webgpu: boolean;
+  wasmSimd: boolean;
+  wasmThreads: boolean;
+}
+
+export const backendLabels: Record<ModelBackend, string> = {
+  webgpu: 'WebGPU',
+  'wasm-threaded': 'WASM (SIMD + threads)',
+  wasm: 'WASM'
+};
+
+// Smallest module using a v128 instruction, as used by wasm-feature-detect
+const SIMD_TEST_MODULE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11
+]);
+
+interface NavigatorWithGpu extends Navigator {
+  gpu?: { requestAdapter(): Promise<unknown | null> };
+}
+
+const detectWebGpu = async (): Promise<boolean> => {
+  const gpu = (navigator as NavigatorWithGpu).gpu;
+  if (!gpu) return false;
+
+  try {
+    return (await gpu.requestAdapter()) !== null;
+  } catch {
+    return false;
+  }
+};
+
+const detectWasmSimd = (): boolean => {
+  try {
+    return typeof WebAssembly !== 'undefined' && WebAssembly.validate(SIMD_TEST_MODULE);
+  } catch {
+    return false;
+  }
+};
+
+// Threads need SharedArrayBuffer, which browsers only expose to cross-origin isolated pages
+const detectWasmThreads = (): boolean => {
+  return typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated === true;
+};
+
+let supportCheck: Promise<BackendSupport> | null = null;
+
+export const detectBackendSupport = (): Promise<BackendSupport> => {
+  if (!supportCheck) {
+    supportCheck = (async () => {
+      const support = {
+        webgpu: await detectWebGpu(),
+        wasmSimd: detectWasmSimd(),
+        wasmThreads: detectWasmThreads()
+      };
+      console.log('Detected inference backends:', support);
+      return support;
+    })();
+  }
+
+  return supportCheck;
+};
+
+// Backends to try in order, fastest first
+export const getBackendFallbackChain = (support: BackendSupport): ModelBackend[] => {
+  const chain: ModelBackend[] = [];
+
+  if (support.webgpu) chain.push('webgpu');
+  if (support.wasmSimd && support.wasmThreads) chain.push('wasm-threaded');
+  chain.push('wasm');
+
+  return chain;
+};
@@ -0,0 +1,194 @@
+// Shared background colour estimator for the colour-based algorithms.
+// Clusters the pixels of the whole border strip in CIELAB, so two-tone, gradient-ish
+// and noisy backgrounds come out as one or more colours, each with its spread.
+//
+// Distances are CIE76 ΔE scaled to the 0-441 range of plain RGB distance, so the
+// existing colour tolerance options keep roughly the same meaning.
+import { throwIfAborted } from './abort';
+import type { PixelBuffer } from './pixelBuffer';
+
+export type Lab = [number, number, number];
+
+export interface BackgroundCluster {
+  // Mean colour of the cluster
+  color: [number, number, number];
+  lab: Lab;
+  // RMS distance of the cluster's samples from its centre
+  spread: number;
+  // Share of the border samples in this cluster
+  weight: number;
+}
+
+export interface BackgroundEstimationOptions {
+  maxClusters: number;
+  // Clusters with a smaller share of the border are treated as foreground touching the edge
+  minWeight: number;
+}
+
+const DEFAULT_OPTIONS: BackgroundEstimationOptions = {
+  maxClusters: 3,
+  minWeight: 0.1
+};
+
+const DISTANCE_SCALE = (Math.sqrt(3) * 255) / 100;
+// Clusters closer than this are merged into one colour
+const MERGE_DISTANCE = 8 * DISTANCE_SCALE;
+const MAX_SAMPLES = 6000;
+const ITERATIONS = 8;
+
+const srgbToLinear = (value: number) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const labF = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  // D65 white point
+  const x = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const y = labF(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const z = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+const labDistance = (a: Lab, b: Lab) => {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2) * DISTANCE_SCALE;
+};
+
+export const createBackgroundCluster = (color: [number, number, number]): BackgroundCluster => {
+  return { color, lab: rgbToLab(...color), spread: 0, weight: 1 };
+};
+
+// Distance from a colour to the nearest background cluster, less that cluster's spread
+export const backgroundDistance = (r: number, g: number, b: number, clusters: BackgroundCluster[]): number => {
+  const lab = rgbToLab(r, g, b);
+  let nearest = Infinity;
+
+  for (const cluster of clusters) {
+    nearest = Math.min(nearest, Math.max(0, labDistance(lab, cluster.lab) - cluster.spread));
+  }
+
+  return nearest;
+};
+
+const sampleBorder = (imageData: PixelBuffer): { rgb: [number, number, number]; lab: Lab }[] => {
+  const { data, width, height } = imageData;
+  const strip = Math.max(1, Math.min(8, Math.round(Math.min(width, height) * 0.02)));
+  const stripPixels = 2 * strip * width + 2 * strip * Math.max(0, height - 2 * strip);
+  const stride = Math.max(1, Math.ceil(stripPixels / MAX_SAMPLES));
+  const samples: { rgb: [number, number, number]; lab: Lab }[] = [];
+  let counter = 0;
+
+  for (let y = 0; y < height; y++) {
+    const inHorizontalStrip = y < strip || y >= height - strip;
+
+    for (let x = 0; x < width; x++) {
+      if (!inHorizontalStrip && x >= strip && x < width - strip) {
+        // Skip the interior of the row
+        x = width - strip - 1;
+        continue;
+      }
+
+      if (counter++ % stride !== 0) continue;
+
+      const index = (y * width + x) * 4;
+      const rgb: [number, number, number] = [data[index], data[index + 1], data[index + 2]];
+      samples.push({ rgb, lab: rgbToLab(...rgb) });
+    }
+  }
+
+  return samples;
+};
+
+// Returns the background clusters ordered by weight, always at least one
+export const estimateBackground = (
+  imageData: PixelBuffer,
+  options: Partial<BackgroundEstimationOptions> = {},
+  signal?: AbortSignal
+): BackgroundCluster[] => {
+  const { maxClusters, minWeight } = { ...DEFAULT_OPTIONS, ...options };
+  const samples = sampleBorder(imageData);
+
+  if (samples.length === 0) return [createBackgroundCluster([255, 255, 255])];
+
+  // Farthest-point initialisation, starting from the mean border colour
+  const mean = samples.reduce<Lab>((sum, { lab }) => [sum[0] + lab[0], sum[1] + lab[1], sum[2] + lab[2]], [0, 0, 0]);
+  const centers: Lab[] = [[mean[0] / samples.length, mean[1] / samples.length, mean[2] / samples.length]];
+
+  while (centers.length < maxClusters) {
+    let farthest = samples[0].lab;
+    let farthestDistance = -1;
+
+    for (const { lab } of samples) {
+      const distance = Math.min(...centers.map(center => labDistance(lab, center)));
+      if (distance > farthestDistance) {
+        farthest = lab;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthestDistance < MERGE_DISTANCE) break;
+    centers.push(farthest);
+  }
+
+  throwIfAborted(signal);
+
+  // k-means
+  const assignments = new Array<number>(samples.length).fill(0);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    samples.forEach(({ lab }, index) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach((center, c) => {
+        const distance = labDistance(lab, center);
+        if (distance < bestDistance) {
+          best = c;
+          bestDistance = distance;
+        }
+      });
+      assignments[index] = best;
+    });
+
+    centers.forEach((center, c) => {
+      const members = samples.filter((_, index) => assignments[index] === c);
+      if (members.length === 0) return;
+      for (let channel = 0; channel < 3; channel++) {
+        center[channel] = members.reduce((sum, { lab }) => sum + lab[channel], 0) / members.length;
+      }
+    });
+  }
+
+  let clusters: BackgroundCluster[] = centers.map((center, c) => {
+    const members = samples.filter((_, index) => assignments[index] === c);
+    const count = Math.max(1, members.length);
+    const color = [0, 1, 2].map(channel =>
+      Math.round(members.reduce((sum, { rgb }) => sum + rgb[channel], 0) / count)
+    ) as [number, number, number];
+    const variance = members.reduce((sum, { lab }) => sum + labDistance(lab, center) ** 2, 0) / count;
+
+    return { color, lab: center, spread: Math.sqrt(variance), weight: members.length / samples.length };
+  });
+
+  // Merge clusters that ended up close together
+  clusters.sort((a, b) => b.weight - a.weight);
+  const merged: BackgroundCluster[] = [];
+  for (const cluster of clusters) {
+    const target = merged.find(existing => labDistance(existing.lab, cluster.lab) < MERGE_DISTANCE);
+    if (target) {
+      target.spread = Math.max(target.spread, cluster.spread + labDistance(target.lab, cluster.lab));
+      target.weight += cluster.weight;
+    } else {
+      merged.push({ ...cluster });
+    }
+  }
+
+  clusters = merged.filter((cluster, index) => index === 0 || cluster.weight >= minWeight);
+  console.log('Estimated background colours:', clusters.map(({ color, spread, weight }) => ({ color, spread: Math.round(spread), weight: Math.round(weight * 100) / 100 })));
+
+  return clusters;
+};
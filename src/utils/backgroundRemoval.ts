@@ -1,185 +1,352 @@
-import { pipeline, env } from '@huggingface/transformers';
-import { removeIconBackground } from './iconBackgroundRemoval';
-import { rembgBackgroundRemoval } from './rembgAlgorithm';
-import { modnetBackgroundRemoval } from './modnetAlgorithm';
-import { gimpBackgroundRemoval } from './gimpAlgorithm';
-import { inkscapeBackgroundRemoval } from './inkscapeAlgorithm';
-import { inspyrenetBackgroundRemoval } from './inspyrenetAlgorithm';
-
-// Configure transformers.js to always download models
-env.allowLocalModels = false;
-env.useBrowserCache = false;
-
-const MAX_IMAGE_DIMENSION = 1024;
-
-function resizeImageIfNeeded(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, image: HTMLImageElement) {
-  let width = image.naturalWidth;
-  let height = image.naturalHeight;
-
-  if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
-    if (width > height) {
-      height = Math.round((height * MAX_IMAGE_DIMENSION) / width);
-      width = MAX_IMAGE_DIMENSION;
-    } else {
-      width = Math.round((width * MAX_IMAGE_DIMENSION) / height);
-      height = MAX_IMAGE_DIMENSION;
-    }
+import { registerAlgorithm, getAlgorithm, getRegisteredAlgorithms } from './algorithmRegistry';
+import { blobToImageData, imageElementToImageData, imageDataToBlob } from './canvasUtils';
+import { getPixelKernel, PixelKernel, POST_PROCESSING_KERNEL } from './pixelKernels';
+import { hasPostProcessing, splitPostProcessingOptions } from './postProcessing';
+import { mergeAlgorithmOptions, runKernelWithPostProcessing } from './removalCore';
+import type { PixelBuffer } from './pixelBuffer';
+import { applyRefinementMask, RefinementMask } from './refinementMask';
+import { detectCheckerboard } from './checkerboardDetection';
+import { combineAlphas, renderDisagreementMap, renderEnsemble, EnsembleOptions } from './ensemble';
+import { scoreResult, QualityScore } from './qualityScoring';
+import { estimateBackground } from './backgroundEstimation';
+import { combineSignals, createAbortError, isAbortError, throwIfAborted } from './abort';
+import { isWorkerPoolSupported, runInWorkerPool } from './workerPool';
+import { getModelStatus } from './modelManager';
+import { backendLabels } from './backendDetection';
+import { iconAlgorithm } from './iconBackgroundRemoval';
+import { aiAlgorithm } from './aiAlgorithm';
+import { rembgAlgorithm } from './rembgAlgorithm';
+import { modnetAlgorithm } from './modnetAlgorithm';
+import { gimpAlgorithm } from './gimpAlgorithm';
+import { colorToAlphaAlgorithm } from './colorToAlphaAlgorithm';
+import { gradientAlgorithm } from './gradientAlgorithm';
+import { inkscapeAlgorithm } from './inkscapeAlgorithm';
+import { checkerboardAlgorithm } from './checkerboardAlgorithm';
+import { inspyrenetAlgorithm } from './inspyrenetAlgorithm';
 
-    canvas.width = width;
-    canvas.height = height;
-    ctx.drawImage(image, 0, 0, width, height);
-    return true;
-  }
+// Built-in algorithms, in the order they appear in the comparison grid
+registerAlgorithm(iconAlgorithm);
+registerAlgorithm(aiAlgorithm);
+registerAlgorithm(rembgAlgorithm);
+registerAlgorithm(modnetAlgorithm);
+registerAlgorithm(gimpAlgorithm);
+registerAlgorithm(colorToAlphaAlgorithm);
+registerAlgorithm(gradientAlgorithm);
+registerAlgorithm(inkscapeAlgorithm);
+registerAlgorithm(checkerboardAlgorithm);
+registerAlgorithm(inspyrenetAlgorithm);
 
-  canvas.width = width;
-  canvas.height = height;
-  ctx.drawImage(image, 0, 0);
-  return false;
-}
+export { registerAlgorithm, unregisterAlgorithm, getAlgorithm, getRegisteredAlgorithms } from './algorithmRegistry';
+export type { AlgorithmDefinition, AlgorithmOptionSchema } from './algorithmRegistry';
+export { removeBackgroundFromPixels, mergeAlgorithmOptions } from './removalCore';
+export type { RemovalResult } from './removalCore';
 
-export type BackgroundRemovalAlgorithm = 'icon' | 'ai' | 'rembg' | 'modnet' | 'gimp' | 'inkscape' | 'inspyrenet';
+// Algorithm ids are whatever has been registered, built-in or custom
+export type BackgroundRemovalAlgorithm = string;
 
-export const algorithmInfo = {
-  icon: { name: 'Icon Algorithm', description: 'Best for solid color backgrounds' },
-  ai: { name: 'AI Algorithm', description: 'General purpose AI model' },
-  rembg: { name: 'Rembg', description: 'U²-Net based removal' },
-  modnet: { name: 'MODNet', description: 'Portrait matting focused' },
-  gimp: { name: 'GIMP-style', description: 'Color selection with feathering' },
-  inkscape: { name: 'Inkscape-style', description: 'Vector-like edge detection' },
-  inspyrenet: { name: 'InSPyReNet', description: 'Salient object detection' }
+// Runs a pixel kernel followed by the post-processing stages, in the worker pool when possible.
+// original is only needed when image is already an algorithm's output.
+const runPixelKernel = async (
+  kernelId: string,
+  image: PixelBuffer,
+  options: object,
+  inlineKernel: PixelKernel,
+  signal?: AbortSignal,
+  original?: PixelBuffer
+): Promise<Blob> => {
+  if (isWorkerPoolSupported() && getPixelKernel(kernelId)) {
+    const { image: output, png } = await runInWorkerPool(kernelId, image, options, signal, original);
+    throwIfAborted(signal);
+    return png ?? await imageDataToBlob(output, signal);
+  }
+  
+  // Custom kernels are not bundled into the worker, so they run on the main thread
+  const output = runKernelWithPostProcessing(inlineKernel, image, options, signal, original);
+  return await imageDataToBlob(output, signal);
 };
 
+// Browser adapter around the pixel core: decodes the image once, runs the algorithm
+// and encodes its output as a PNG
 export const removeBackgroundWithAlgorithm = async (
   imageElement: HTMLImageElement, 
-  algorithm: BackgroundRemovalAlgorithm
+  algorithm: BackgroundRemovalAlgorithm,
+  options: object = {},
+  signal?: AbortSignal
 ): Promise<Blob> => {
+  const definition = getAlgorithm(algorithm);
+  
+  if (!definition) {
+    throw new Error(`Unknown background removal algorithm: ${algorithm}`);
+  }
+  
   console.log(`Using ${algorithm} algorithm for background removal`);
+  const mergedOptions = mergeAlgorithmOptions(definition, options);
+  const image = imageElementToImageData(imageElement, signal);
   
-  switch (algorithm) {
-    case 'icon':
-      return await removeIconBackground(imageElement, {
-        tolerance: 35,
-        edgeThreshold: 10,
-        smoothing: true
-      });
-    
-    case 'rembg':
-      return await rembgBackgroundRemoval(imageElement);
-    
-    case 'modnet':
-      return await modnetBackgroundRemoval(imageElement);
-    
-    case 'gimp':
-      return await gimpBackgroundRemoval(imageElement);
-    
-    case 'inkscape':
-      return await inkscapeBackgroundRemoval(imageElement);
-    
-    case 'inspyrenet':
-      return await inspyrenetBackgroundRemoval(imageElement);
-    
-    case 'ai':
-    default:
-      // Fallback to AI model for complex backgrounds
-      console.log('Using AI model for background removal...');
-      const remover = await pipeline('image-segmentation', 'briaai/RMBG-1.4', {
-        device: 'webgpu',
-      });
-      
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) throw new Error('Could not get canvas context');
-      
-      const wasResized = resizeImageIfNeeded(canvas, ctx, imageElement);
-      console.log(`Image ${wasResized ? 'was' : 'was not'} resized. Final dimensions: ${canvas.width}x${canvas.height}`);
-      
-      const imageData = canvas.toDataURL('image/jpeg', 0.8);
-      console.log('Image converted to base64');
-      
-      console.log('Processing with background removal model...');
-      const result = await remover(imageData);
-      
-      console.log('Background removal result:', result);
-      
-      if (!result || !Array.isArray(result) || result.length === 0 || !result[0].mask) {
-        throw new Error('Invalid background removal result');
-      }
-      
-      const outputCanvas = document.createElement('canvas');
-      outputCanvas.width = canvas.width;
-      outputCanvas.height = canvas.height;
-      const outputCtx = outputCanvas.getContext('2d');
-      
-      if (!outputCtx) throw new Error('Could not get output canvas context');
-      
-      outputCtx.drawImage(canvas, 0, 0);
-      
-      const outputImageData = outputCtx.getImageData(
-        0, 0,
-        outputCanvas.width,
-        outputCanvas.height
-      );
-      const data = outputImageData.data;
-      
-      for (let i = 0; i < result[0].mask.data.length; i++) {
-        const alpha = Math.round(result[0].mask.data[i] * 255);
-        data[i * 4 + 3] = alpha;
-      }
-      
-      outputCtx.putImageData(outputImageData, 0, 0);
-      console.log('Background removed successfully');
-      
-      return new Promise((resolve, reject) => {
-        outputCanvas.toBlob(
-          (blob) => {
-            if (blob) {
-              console.log('Successfully created final blob');
-              resolve(blob);
-            } else {
-              reject(new Error('Failed to create blob'));
-            }
-          },
-          'image/png',
-          1.0
-        );
-      });
+  if (definition.processPixels) {
+    return await runPixelKernel(definition.id, image, mergedOptions, definition.processPixels, signal);
   }
+  
+  const { algorithmOptions, postProcessing } = splitPostProcessingOptions(mergedOptions);
+  const output = await definition.run(image, algorithmOptions, signal);
+  
+  if (!hasPostProcessing(postProcessing)) return await imageDataToBlob(output, signal);
+  
+  return await runPixelKernel(POST_PROCESSING_KERNEL, output, postProcessing, (pixels) => pixels, signal, image);
 };
 
-export const processImageWithAllAlgorithms = async (imageElement: HTMLImageElement): Promise<{
+export interface AlgorithmResult {
   algorithm: BackgroundRemovalAlgorithm;
   result: string;
   blob: Blob;
-}[]> => {
-  const algorithms: BackgroundRemovalAlgorithm[] = ['icon', 'ai', 'rembg', 'modnet', 'gimp', 'inkscape', 'inspyrenet'];
-  const results = [];
+  // Where the algorithm actually ran, e.g. "WebGPU" or "Web Worker"
+  backend?: string;
+  // The algorithm's own output when manual edits have been applied to blob
+  unedited?: Blob;
+  // Reference-free quality score of blob
+  quality?: QualityScore;
+}
+
+export const getAlgorithmBackend = (algorithm: BackgroundRemovalAlgorithm): string | undefined => {
+  const definition = getAlgorithm(algorithm);
+  if (!definition) return undefined;
+  
+  if (definition.models?.length) {
+    const backend = getModelStatus(definition.models[0]).backend;
+    return backend ? backendLabels[backend] : undefined;
+  }
+  
+  if (definition.processPixels) {
+    return isWorkerPoolSupported() && getPixelKernel(algorithm) ? 'Web Worker' : 'Main thread';
+  }
+  
+  return undefined;
+};
+
+// Runs one algorithm and wraps its output for display
+export const runAlgorithm = async (
+  imageElement: HTMLImageElement,
+  algorithm: BackgroundRemovalAlgorithm,
+  options: object = {},
+  signal?: AbortSignal
+): Promise<AlgorithmResult> => {
+  const blob = await removeBackgroundWithAlgorithm(imageElement, algorithm, options, signal);
+  
+  return await scoreAlgorithmResult(imageElement, {
+    algorithm,
+    result: URL.createObjectURL(blob),
+    blob,
+    backend: getAlgorithmBackend(algorithm)
+  }, signal);
+};
+
+// Attaches a quality score to a result; scoring problems never fail the result itself
+export const scoreAlgorithmResult = async (
+  imageElement: HTMLImageElement,
+  result: AlgorithmResult,
+  signal?: AbortSignal
+): Promise<AlgorithmResult> => {
+  try {
+    const original = imageElementToImageData(imageElement, signal);
+    const output = await blobToImageData(result.blob, signal, { width: original.width, height: original.height });
+    const quality = scoreResult(original, output, estimateBackground(original, {}, signal), signal);
+    console.log(`${result.algorithm} quality score: ${quality.overall}`);
+    return { ...result, quality };
+  } catch (error) {
+    if (isAbortError(error)) {
+      URL.revokeObjectURL(result.result);
+      throw error;
+    }
+    console.warn(`Could not score ${result.algorithm} result:`, error);
+    return { ...result, quality: undefined };
+  }
+};
+
+// The best scored result, if any has a score
+export const getRecommendedResult = (results: AlgorithmResult[]): AlgorithmResult | undefined => {
+  return results.reduce<AlgorithmResult | undefined>((best, result) => {
+    if (!result.quality) return best;
+    return !best?.quality || result.quality.overall > best.quality.overall ? result : best;
+  }, undefined);
+};
+
+// Applies manual brush edits to a result, starting again from the algorithm's own output
+export const applyEditsToResult = async (
+  result: AlgorithmResult,
+  mask: RefinementMask,
+  signal?: AbortSignal
+): Promise<AlgorithmResult> => {
+  const unedited = result.unedited ?? result.blob;
+  const imageData = await blobToImageData(unedited, signal);
+  const blob = await imageDataToBlob(applyRefinementMask(imageData, mask), signal);
+  
+  return {
+    ...result,
+    result: URL.createObjectURL(blob),
+    blob,
+    unedited
+  };
+};
+
+export interface EnsembleResult {
+  result: string;
+  blob: Blob;
+  // Object URL of the disagreement heatmap
+  disagreement: string;
+  algorithms: BackgroundRemovalAlgorithm[];
+}
+
+// Combines the finished results into one consensus result
+export const createEnsembleResult = async (
+  imageElement: HTMLImageElement,
+  results: AlgorithmResult[],
+  options: Partial<EnsembleOptions> = {},
+  signal?: AbortSignal
+): Promise<EnsembleResult> => {
+  const original = imageElementToImageData(imageElement, signal);
+  const size = { width: original.width, height: original.height };
+  
+  // Model outputs may come back at another size, so every layer is decoded at the original's
+  const layers = await Promise.all(results.map(async ({ algorithm, blob }) => ({
+    algorithm,
+    imageData: await blobToImageData(blob, signal, size)
+  })));
+  
+  const output = combineAlphas(layers, options, signal);
+  const blob = await imageDataToBlob(renderEnsemble(original, output), signal);
+  const disagreementBlob = await imageDataToBlob(renderDisagreementMap(original, output), signal);
+  
+  return {
+    result: URL.createObjectURL(blob),
+    blob,
+    disagreement: URL.createObjectURL(disagreementBlob),
+    algorithms: layers.map(({ algorithm }) => algorithm)
+  };
+};
+
+// Skipped algorithms do not apply to the image, e.g. checkerboard removal without a checkerboard
+export type AlgorithmRunState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled' | 'skipped';
+
+export interface AlgorithmRunStatus {
+  algorithm: BackgroundRemovalAlgorithm;
+  state: AlgorithmRunState;
+  error?: string;
+  startedAt?: number;
+  elapsedMs?: number;
+}
+
+export interface ProcessAllOptions {
+  // How many algorithms may run at the same time
+  concurrency?: number;
+  onStatusChange?: (status: AlgorithmRunStatus) => void;
+  // Called as soon as each algorithm finishes, before the others are done
+  onResult?: (result: AlgorithmResult) => void;
+  // Per-algorithm overrides of each definition's default options
+  algorithmOptions?: Record<BackgroundRemovalAlgorithm, object>;
+  // Aborting stops queued algorithms, interrupts running ones and revokes finished results
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_CONCURRENCY = 3;
+
+export const processImageWithAllAlgorithms = async (
+  imageElement: HTMLImageElement,
+  { concurrency = DEFAULT_CONCURRENCY, onStatusChange, onResult, algorithmOptions = {}, signal }: ProcessAllOptions = {}
+): Promise<AlgorithmResult[]> => {
+  const definitions = getRegisteredAlgorithms();
+  const algorithms = definitions.map(definition => definition.id);
+  const results: AlgorithmResult[] = [];
+  const original = definitions.some(definition => definition.isApplicable)
+    ? imageElementToImageData(imageElement, signal)
+    : undefined;
+  const skipped = new Set(
+    definitions.filter(definition => original && definition.isApplicable?.(original) === false).map(definition => definition.id)
+  );
+  const queue = algorithms.filter(algorithm => !skipped.has(algorithm));
+  
+  algorithms.forEach(algorithm => onStatusChange?.({ algorithm, state: skipped.has(algorithm) ? 'skipped' : 'queued' }));
   
-  for (const algorithm of algorithms) {
+  const runNext = async (): Promise<void> => {
+    const algorithm = queue.shift();
+    if (!algorithm) return;
+    
+    if (signal?.aborted) {
+      onStatusChange?.({ algorithm, state: 'cancelled' });
+      return await runNext();
+    }
+    
+    const startedAt = performance.now();
+    onStatusChange?.({ algorithm, state: 'running', startedAt });
+    
     try {
       console.log(`Processing with ${algorithm} algorithm...`);
-      const blob = await removeBackgroundWithAlgorithm(imageElement, algorithm);
-      const result = URL.createObjectURL(blob);
-      results.push({ algorithm, result, blob });
+      const result = await runAlgorithm(imageElement, algorithm, algorithmOptions[algorithm], signal);
+      
+      results.push(result);
+      onResult?.(result);
+      onStatusChange?.({ algorithm, state: 'done', startedAt, elapsedMs: performance.now() - startedAt });
     } catch (error) {
+      if (isAbortError(error)) {
+        onStatusChange?.({ algorithm, state: 'cancelled', startedAt, elapsedMs: performance.now() - startedAt });
+        return await runNext();
+      }
+      
       console.error(`Error with ${algorithm} algorithm:`, error);
       // Continue with other algorithms even if one fails
+      onStatusChange?.({
+        algorithm,
+        state: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        startedAt,
+        elapsedMs: performance.now() - startedAt
+      });
     }
+    
+    await runNext();
+  };
+  
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, () => runNext());
+  await Promise.all(runners);
+  
+  if (signal?.aborted) {
+    results.forEach(result => URL.revokeObjectURL(result.result));
+    throw createAbortError();
   }
   
-  return results;
+  // Keep the registry order regardless of which algorithm finished first
+  return results.sort((a, b) => algorithms.indexOf(a.algorithm) - algorithms.indexOf(b.algorithm));
 };
 
-export const loadImage = (file: Blob): Promise<HTMLImageElement> => {
+export const loadImage = (file: Blob, signal?: AbortSignal): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    
     const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = URL.createObjectURL(file);
+    const url = URL.createObjectURL(file);
+    const onAbort = () => {
+      img.src = '';
+      URL.revokeObjectURL(url);
+      reject(createAbortError());
+    };
+    
+    signal?.addEventListener('abort', onAbort, { once: true });
+    img.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(img);
+    };
+    img.onerror = (error) => {
+      signal?.removeEventListener('abort', onAbort);
+      URL.revokeObjectURL(url);
+      reject(error);
+    };
+    img.src = url;
   });
 };
 
-export const loadImageFromUrl = async (url: string): Promise<HTMLImageElement> => {
+export const loadImageFromUrl = async (url: string, signal?: AbortSignal): Promise<HTMLImageElement> => {
   console.log('Attempting to load image from URL:', url);
   
   // Try to fetch the image through a proxy first to avoid CORS issues
@@ -195,7 +362,7 @@ export const loadImageFromUrl = async (url: string): Promise<HTMLImageElement> =
       
       const response = await fetch(proxyUrl, {
         method: 'GET',
-        signal: AbortSignal.timeout(10000)
+        signal: combineSignals(signal, AbortSignal.timeout(10000))
       });
 
       if (!response.ok) {
@@ -211,20 +378,19 @@ export const loadImageFromUrl = async (url: string): Promise<HTMLImageElement> =
 
       console.log('Successfully fetched image via proxy, creating image element');
       
-      return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => {
-          console.log('Image loaded successfully');
-          resolve(img);
-        };
-        img.onerror = (error) => {
-          console.error('Error loading image from blob:', error);
-          reject(new Error('Failed to load image from blob'));
-        };
-        img.src = URL.createObjectURL(blob);
-      });
+      try {
+        const img = await loadImage(blob, signal);
+        console.log('Image loaded successfully');
+        return img;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('Error loading image from blob:', error);
+        throw new Error('Failed to load image from blob');
+      }
 
     } catch (error) {
+      // A cancelled run should not fall through to the next proxy
+      if (signal?.aborted) throw createAbortError();
       console.warn(`Proxy failed: ${proxyUrl}`, error);
       continue;
     }
@@ -234,15 +400,35 @@ export const loadImageFromUrl = async (url: string): Promise<HTMLImageElement> =
   console.log('All proxies failed, trying direct load...');
   return new Promise((resolve, reject) => {
     const img = new Image();
+    const onAbort = () => {
+      img.src = '';
+      reject(createAbortError());
+    };
+    
+    signal?.addEventListener('abort', onAbort, { once: true });
     img.crossOrigin = 'anonymous';
     img.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
       console.log('Direct image load successful');
       resolve(img);
     };
     img.onerror = (error) => {
+      signal?.removeEventListener('abort', onAbort);
       console.error('Direct image load failed:', error);
       reject(new Error('Failed to load image. The image may be blocked by CORS policy or the URL may be inaccessible.'));
     };
     img.src = url;
   });
 };
+
+// Whether an image has a fake transparency checkerboard baked into its pixels
+export const detectFakeTransparency = async (url: string, signal?: AbortSignal): Promise<boolean> => {
+  const img = await loadImageFromUrl(url, signal);
+  
+  try {
+    // Detection needs the squares at their original size, so no downscaling here
+    return detectCheckerboard(imageElementToImageData(img, signal)) !== null;
+  } finally {
+    if (img.src.startsWith('blob:')) URL.revokeObjectURL(img.src);
+  }
+};
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createBatchQueue, getBatchCounts, BatchJob } from './batchQueue';
+import { createAbortError } from './abort';
+
+interface Deferred {
+  input: string;
+  signal: AbortSignal;
+  resolve: (value: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// A queue whose runs stay pending until the test settles them, even when aborted
+const createTestQueue = (options: { concurrency?: number; maxAttempts?: number } = {}) => {
+  const pending: Deferred[] = [];
+  const discarded: string[] = [];
+  let jobs: BatchJob<string, string>[] = [];
+
+  const queue = createBatchQueue<string, string>({
+    concurrency: options.concurrency ?? 1,
+    maxAttempts: options.maxAttempts ?? 1,
+    run: (input, signal) => new Promise((resolve, reject) => pending.push({ input, signal, resolve, reject })),
+    onChange: (next) => {
+      jobs = next;
+    },
+    onDiscard: (result) => discarded.push(result)
+  });
+
+  return { queue, pending, discarded, getJobs: () => jobs };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createBatchQueue', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs no more jobs at once than the concurrency allows', async () => {
+    const { queue, pending, getJobs } = createTestQueue({ concurrency: 2 });
+    queue.add(['a', 'b', 'c'].map(id => ({ id, input: id })));
+
+    expect(pending.map(run => run.input)).toEqual(['a', 'b']);
+    expect(getBatchCounts(getJobs())).toMatchObject({ running: 2, queued: 1 });
+
+    pending[0].resolve('A');
+    await flush();
+
+    expect(pending.map(run => run.input)).toEqual(['a', 'b', 'c']);
+    expect(getJobs().find(job => job.id === 'a')).toMatchObject({ state: 'done', result: 'A', attempts: 1 });
+  });
+
+  it('skips ids that are already queued or done', async () => {
+    const { queue, pending, getJobs } = createTestQueue();
+    queue.add([{ id: 'a', input: 'a' }]);
+    queue.add([{ id: 'a', input: 'a' }]);
+    pending[0].resolve('A');
+    await flush();
+    queue.add([{ id: 'a', input: 'a' }]);
+
+    expect(getJobs()).toHaveLength(1);
+    expect(pending).toHaveLength(1);
+  });
+
+  it('retries failed jobs until maxAttempts, then marks them failed', async () => {
+    const { queue, pending, getJobs } = createTestQueue({ maxAttempts: 2 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    queue.add([{ id: 'a', input: 'a' }]);
+
+    pending[0].reject(new Error('first'));
+    await flush();
+    expect(pending).toHaveLength(2);
+    expect(getJobs()[0]).toMatchObject({ state: 'running', attempts: 2 });
+
+    pending[1].reject(new Error('second'));
+    await flush();
+    expect(getJobs()[0]).toMatchObject({ state: 'failed', attempts: 2, error: 'second' });
+
+    queue.retryFailed();
+    expect(pending).toHaveLength(3);
+    expect(getJobs()[0]).toMatchObject({ state: 'running', attempts: 1 });
+  });
+
+  it('treats an abort it did not ask for as a failure', async () => {
+    const { queue, pending, getJobs } = createTestQueue({ maxAttempts: 2 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    queue.add([{ id: 'a', input: 'a' }]);
+
+    pending[0].reject(createAbortError());
+    await flush();
+    expect(pending).toHaveLength(2);
+    expect(getJobs()[0]).toMatchObject({ state: 'running', attempts: 2 });
+
+    pending[1].reject(createAbortError());
+    await flush();
+    expect(getJobs()[0]).toMatchObject({ state: 'failed', attempts: 2 });
+  });
+
+  it('starts nothing new while paused', async () => {
+    const { queue, pending } = createTestQueue();
+    queue.add(['a', 'b'].map(id => ({ id, input: id })));
+    queue.pause();
+    pending[0].resolve('A');
+    await flush();
+    expect(pending).toHaveLength(1);
+
+    queue.resume();
+    expect(pending).toHaveLength(2);
+  });
+
+  it('cancels running and queued jobs', async () => {
+    const { queue, pending, getJobs } = createTestQueue();
+    queue.add(['a', 'b'].map(id => ({ id, input: id })));
+    queue.cancel();
+
+    expect(pending[0].signal.aborted).toBe(true);
+    expect(getBatchCounts(getJobs())).toMatchObject({ cancelled: 2, running: 0, queued: 0 });
+    pending[0].reject(createAbortError());
+    await flush();
+    expect(getBatchCounts(getJobs())).toMatchObject({ cancelled: 2 });
+  });
+
+  it('keeps tracking a retried job when its cancelled run settles late', async () => {
+    const { queue, pending, getJobs } = createTestQueue();
+    queue.add([{ id: 'a', input: 'a' }]);
+    queue.cancel();
+    queue.retryFailed();
+    expect(pending).toHaveLength(2);
+
+    pending[0].reject(createAbortError());
+    await flush();
+    queue.cancel();
+
+    expect(pending[1].signal.aborted).toBe(true);
+    expect(getJobs()[0]).toMatchObject({ state: 'cancelled' });
+  });
+
+  it('discards results that arrive after a cancel and on clear', async () => {
+    const { queue, pending, discarded, getJobs } = createTestQueue({ concurrency: 2 });
+    queue.add(['a', 'b'].map(id => ({ id, input: id })));
+    pending[0].resolve('A');
+    await flush();
+
+    const late = pending[1];
+    queue.cancel();
+    late.resolve('B');
+    await flush();
+    expect(discarded).toEqual(['B']);
+
+    queue.clear();
+    expect(discarded).toEqual(['B', 'A']);
+    expect(getJobs()).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+// Job queue for batch runs over many images. Jobs run a few at a time and the queue
+// can be paused, resumed, cancelled and retried; it knows nothing about images itself,
+// the work is done by the run function it is created with.
+
+export type BatchJobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJob<TInput, TResult> {
+  id: string;
+  input: TInput;
+  state: BatchJobState;
+  // Runs so far, including the one in progress
+  attempts: number;
+  result?: TResult;
+  error?: string;
+  elapsedMs?: number;
+}
+
+export interface BatchQueueOptions<TInput, TResult> {
+  run: (input: TInput, signal: AbortSignal) => Promise<TResult>;
+  concurrency: number;
+  // Failed jobs are queued again automatically until they have run this many times
+  maxAttempts: number;
+  // Receives a fresh copy of every job after each change
+  onChange: (jobs: BatchJob<TInput, TResult>[]) => void;
+  // Frees results that are thrown away, e.g. their object URLs
+  onDiscard?: (result: TResult) => void;
+}
+
+export interface BatchQueue<TInput> {
+  // Jobs whose id is already queued, running or done are skipped; failed ones are queued again
+  add(jobs: { id: string; input: TInput }[]): void;
+  // Running jobs finish, but no new ones start until resume
+  pause(): void;
+  resume(): void;
+  // Stops running jobs and marks them and the queued ones as cancelled
+  cancel(): void;
+  retryFailed(): void;
+  setConcurrency(concurrency: number): void;
+  // Cancels everything and discards all jobs and results
+  clear(): void;
+}
+
+export const getBatchCounts = (jobs: BatchJob<unknown, unknown>[]): Record<BatchJobState, number> => {
+  const counts: Record<BatchJobState, number> = { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+  jobs.forEach(job => counts[job.state]++);
+  return counts;
+};
+
+export const createBatchQueue = <TInput, TResult>(options: BatchQueueOptions<TInput, TResult>): BatchQueue<TInput> => {
+  let jobs: BatchJob<TInput, TResult>[] = [];
+  let paused = false;
+  let concurrency = options.concurrency;
+  const running = new Map<string, AbortController>();
+
+  const notify = () => options.onChange(jobs.map(job => ({ ...job })));
+
+  const update = (id: string, changes: Partial<BatchJob<TInput, TResult>>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+  };
+
+  const runJob = async (job: BatchJob<TInput, TResult>) => {
+    const controller = new AbortController();
+    const startedAt = performance.now();
+    const attempts = job.attempts + 1;
+    running.set(job.id, controller);
+    update(job.id, { state: 'running', attempts, error: undefined, elapsedMs: undefined });
+    notify();
+
+    try {
+      const result = await options.run(job.input, controller.signal);
+
+      // Cancelled or cleared while the run was finishing
+      if (controller.signal.aborted) {
+        options.onDiscard?.(result);
+        return;
+      }
+
+      update(job.id, { state: 'done', result, elapsedMs: performance.now() - startedAt });
+    } catch (error) {
+      // Aborts from elsewhere, e.g. a shared source load, count as ordinary failures
+      if (controller.signal.aborted) return;
+
+      console.error(`Batch job ${job.id} failed (attempt ${attempts}):`, error);
+      update(job.id, {
+        state: attempts < options.maxAttempts ? 'queued' : 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        elapsedMs: performance.now() - startedAt
+      });
+    } finally {
+      // A cancel may already have let a newer run of the same job take this slot
+      if (running.get(job.id) === controller) running.delete(job.id);
+      notify();
+      dispatch();
+    }
+  };
+
+  const dispatch = () => {
+    while (!paused && running.size < concurrency) {
+      const next = jobs.find(job => job.state === 'queued' && !running.has(job.id));
+      if (!next) return;
+      void runJob(next);
+    }
+  };
+
+  const abortRunning = () => {
+    running.forEach(controller => controller.abort());
+    running.clear();
+  };
+
+  return {
+    add(newJobs) {
+      for (const { id, input } of newJobs) {
+        const existing = jobs.find(job => job.id === id);
+
+        if (!existing) {
+          jobs.push({ id, input, state: 'queued', attempts: 0 });
+        } else if (existing.state === 'failed' || existing.state === 'cancelled') {
+          update(id, { input, state: 'queued', attempts: 0, error: undefined });
+        }
+      }
+
+      notify();
+      dispatch();
+    },
+
+    pause() {
+      paused = true;
+    },
+
+    resume() {
+      paused = false;
+      dispatch();
+    },
+
+    cancel() {
+      paused = false;
+      abortRunning();
+      jobs = jobs.map(job => (job.state === 'queued' || job.state === 'running' ? { ...job, state: 'cancelled' } : job));
+      notify();
+    },
+
+    retryFailed() {
+      jobs = jobs.map(job =>
+        job.state === 'failed' || job.state === 'cancelled' ? { ...job, state: 'queued', attempts: 0, error: undefined } : job
+      );
+      notify();
+      dispatch();
+    },
+
+    setConcurrency(value) {
+      concurrency = Math.max(1, value);
+      dispatch();
+    },
+
+    clear() {
+      paused = false;
+      abortRunning();
+      jobs.forEach(job => job.result !== undefined && options.onDiscard?.(job.result));
+      jobs = [];
+      notify();
+    }
+  };
+};
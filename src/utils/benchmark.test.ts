@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runBenchmark, BenchmarkPair } from './benchmark';
+import { blobToImageData } from './canvasUtils';
+import { loadImage, removeBackgroundWithAlgorithm } from './backgroundRemoval';
+import { createPixelBuffer } from './pixelBuffer';
+
+// Decoding needs a browser; the tests hand out small opaque images instead
+vi.mock('./canvasUtils', () => ({ blobToImageData: vi.fn() }));
+vi.mock('./backgroundRemoval', () => ({
+  getAlgorithm: vi.fn(),
+  loadImage: vi.fn(),
+  removeBackgroundWithAlgorithm: vi.fn()
+}));
+
+const opaque = () => {
+  const image = createPixelBuffer(2, 2);
+  image.data.fill(255);
+  return image;
+};
+
+const pair = (name: string): BenchmarkPair => ({
+  name,
+  image: new File(['image'], `${name}.png`),
+  reference: new File(['reference'], `${name}_alpha.png`)
+});
+
+describe('runBenchmark', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    vi.mocked(loadImage).mockImplementation(async (file) => ({ src: `blob:${(file as File).name}` }) as HTMLImageElement);
+    vi.mocked(removeBackgroundWithAlgorithm).mockResolvedValue(new Blob());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records a pair whose reference cannot be decoded and carries on', async () => {
+    vi.mocked(blobToImageData).mockImplementation(async (blob) => {
+      if ((blob as File).name === 'broken_alpha.png') throw new Error('Unsupported image');
+      return opaque() as unknown as ImageData;
+    });
+
+    const rows = await runBenchmark([pair('broken'), pair('fine')], ['icon', 'gimp']);
+
+    expect(rows.filter(row => row.image === 'broken')).toEqual([
+      { image: 'broken', algorithm: 'icon', error: 'Unsupported image' },
+      { image: 'broken', algorithm: 'gimp', error: 'Unsupported image' }
+    ]);
+    expect(rows.filter(row => row.image === 'fine' && row.metrics)).toHaveLength(2);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:broken.png');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:fine.png');
+  });
+
+  it('records a pair whose image cannot be loaded', async () => {
+    vi.mocked(blobToImageData).mockResolvedValue(opaque() as unknown as ImageData);
+    vi.mocked(loadImage).mockRejectedValueOnce(new Event('error'));
+    const onRow = vi.fn();
+
+    const rows = await runBenchmark([pair('broken')], ['icon'], { onRow });
+
+    expect(rows).toEqual([{ image: 'broken', algorithm: 'icon', error: 'Could not decode the image or its reference' }]);
+    expect(onRow).toHaveBeenCalledWith(rows[0]);
+  });
+});
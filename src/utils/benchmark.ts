@@ -0,0 +1,178 @@
+// Ground-truth benchmark: runs algorithms over image / reference alpha pairs and
+// collects matting metrics and timings, with CSV and JSON export for tracking regressions.
+import { blobToImageData } from './canvasUtils';
+import { throwIfAborted } from './abort';
+import { DEFAULT_POST_PROCESSING_OPTIONS } from './postProcessing';
+import { alphaFromPixels, computeMattingMetrics, mattingMetricInfo, referenceAlphaFromPixels, MattingMetrics } from './benchmarkMetrics';
+import { getAlgorithm, loadImage, removeBackgroundWithAlgorithm, BackgroundRemovalAlgorithm } from './backgroundRemoval';
+
+export interface BenchmarkPair {
+  name: string;
+  image: File;
+  reference: File;
+}
+
+export interface BenchmarkRow {
+  image: string;
+  algorithm: BackgroundRemovalAlgorithm;
+  metrics?: MattingMetrics;
+  timeMs?: number;
+  error?: string;
+}
+
+export interface BenchmarkSummary {
+  algorithm: BackgroundRemovalAlgorithm;
+  runs: number;
+  failures: number;
+  // Means over the successful runs
+  metrics?: MattingMetrics;
+  timeMs?: number;
+}
+
+export interface RunBenchmarkOptions {
+  algorithmOptions?: Record<BackgroundRemovalAlgorithm, object>;
+  onRow?: (row: BenchmarkRow) => void;
+  signal?: AbortSignal;
+}
+
+const metricKeys = Object.keys(mattingMetricInfo) as (keyof MattingMetrics)[];
+
+// Suffixes commonly used for reference mattes, e.g. "cat_alpha.png" for "cat.jpg"
+const REFERENCE_SUFFIX = /[-_.](alpha|matte|mask|gt|trimap)$/i;
+
+const stem = (filename: string) => filename.replace(/\.[^.]+$/, '');
+
+// Pairs each image with the reference of the same name
+export const pairBenchmarkFiles = (images: File[], references: File[]): { pairs: BenchmarkPair[]; unmatched: string[] } => {
+  const referencesByStem = new Map(references.map(file => [stem(file.name).replace(REFERENCE_SUFFIX, '').toLowerCase(), file]));
+  const pairs: BenchmarkPair[] = [];
+  const unmatched: string[] = [];
+
+  for (const image of images) {
+    const name = stem(image.name);
+    const reference = referencesByStem.get(name.toLowerCase());
+    if (reference) {
+      pairs.push({ name, image, reference });
+    } else {
+      unmatched.push(image.name);
+    }
+  }
+
+  return { pairs, unmatched };
+};
+
+// Runs one algorithm at a time so the timings are not skewed by other runs
+export const runBenchmark = async (
+  pairs: BenchmarkPair[],
+  algorithms: BackgroundRemovalAlgorithm[],
+  { algorithmOptions = {}, onRow, signal }: RunBenchmarkOptions = {}
+): Promise<BenchmarkRow[]> => {
+  const rows: BenchmarkRow[] = [];
+
+  const record = (row: BenchmarkRow) => {
+    rows.push(row);
+    onRow?.(row);
+  };
+
+  for (const pair of pairs) {
+    throwIfAborted(signal);
+
+    let imageElement: HTMLImageElement | undefined;
+    try {
+      let referenceData: ImageData;
+      try {
+        imageElement = await loadImage(pair.image, signal);
+        referenceData = await blobToImageData(pair.reference, signal);
+      } catch (error) {
+        // An unreadable pair fails its own rows rather than the whole run
+        if (signal?.aborted) throw error;
+        console.error(`Benchmark pair ${pair.name} could not be read:`, error);
+        const message = error instanceof Error ? error.message : 'Could not decode the image or its reference';
+        algorithms.forEach(algorithm => record({ image: pair.name, algorithm, error: message }));
+        continue;
+      }
+
+      const reference = referenceAlphaFromPixels(referenceData);
+      const { width, height } = referenceData;
+
+      for (const algorithm of algorithms) {
+        throwIfAborted(signal);
+
+        let row: BenchmarkRow;
+        try {
+          const startedAt = performance.now();
+          const blob = await removeBackgroundWithAlgorithm(imageElement, algorithm, algorithmOptions[algorithm], signal);
+          const timeMs = performance.now() - startedAt;
+
+          // Compare at the reference's size in case an algorithm returns another size
+          const predicted = alphaFromPixels(await blobToImageData(blob, signal, { width, height }));
+          row = { image: pair.name, algorithm, metrics: computeMattingMetrics(predicted, reference, width, height, signal), timeMs };
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.error(`Benchmark of ${algorithm} on ${pair.name} failed:`, error);
+          row = { image: pair.name, algorithm, error: error instanceof Error ? error.message : String(error) };
+        }
+
+        record(row);
+      }
+    } finally {
+      if (imageElement) URL.revokeObjectURL(imageElement.src);
+    }
+  }
+
+  return rows;
+};
+
+export const summarizeBenchmark = (rows: BenchmarkRow[]): BenchmarkSummary[] => {
+  const algorithms = [...new Set(rows.map(row => row.algorithm))];
+
+  return algorithms.map(algorithm => {
+    const runs = rows.filter(row => row.algorithm === algorithm);
+    const succeeded = runs.filter(row => row.metrics);
+    const summary: BenchmarkSummary = { algorithm, runs: runs.length, failures: runs.length - succeeded.length };
+    if (succeeded.length === 0) return summary;
+
+    const mean = (value: (row: BenchmarkRow) => number) => succeeded.reduce((sum, row) => sum + value(row), 0) / succeeded.length;
+    summary.metrics = Object.fromEntries(metricKeys.map(key => [key, mean(row => row.metrics![key])])) as unknown as MattingMetrics;
+    summary.timeMs = mean(row => row.timeMs ?? 0);
+    return summary;
+  });
+};
+
+const csvField = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const benchmarkToCsv = (rows: BenchmarkRow[]): string => {
+  const header = ['image', 'algorithm', ...metricKeys, 'timeMs', 'error'];
+  const lines = rows.map(row => [
+    row.image,
+    row.algorithm,
+    ...metricKeys.map(key => row.metrics?.[key]),
+    row.timeMs !== undefined ? Math.round(row.timeMs) : undefined,
+    row.error
+  ].map(csvField).join(','));
+
+  return [header.join(','), ...lines].join('\n');
+};
+
+export const benchmarkToJson = (
+  rows: BenchmarkRow[],
+  algorithmOptions: Record<BackgroundRemovalAlgorithm, object> = {}
+): string => {
+  const algorithms = [...new Set(rows.map(row => row.algorithm))];
+
+  return JSON.stringify({
+    createdAt: new Date().toISOString(),
+    // The options each algorithm ran with, so later runs can be compared like for like
+    algorithms: algorithms.map(algorithm => ({
+      id: algorithm,
+      name: getAlgorithm(algorithm)?.name ?? algorithm,
+      options: { ...DEFAULT_POST_PROCESSING_OPTIONS, ...getAlgorithm(algorithm)?.defaultOptions, ...algorithmOptions[algorithm] }
+    })),
+    summary: summarizeBenchmark(rows),
+    rows
+  }, null, 2);
+};
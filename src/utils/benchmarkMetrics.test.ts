@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { alphaFromPixels, computeMattingMetrics, referenceAlphaFromPixels } from './benchmarkMetrics';
+import { createPixelBuffer } from './pixelBuffer';
+
+const SIZE = 16;
+
+// A filled square in the middle of the frame, 0-1
+const squareAlpha = () => {
+  const alpha = new Float32Array(SIZE * SIZE);
+  for (let y = 4; y < 12; y++) {
+    for (let x = 4; x < 12; x++) alpha[y * SIZE + x] = 1;
+  }
+  return alpha;
+};
+
+describe('alpha extraction', () => {
+  it('reads the alpha channel when the image has transparency', () => {
+    const image = createPixelBuffer(2, 1, new Uint8ClampedArray([9, 9, 9, 0, 9, 9, 9, 255]));
+    expect(Array.from(referenceAlphaFromPixels(image))).toEqual([0, 1]);
+    expect(Array.from(alphaFromPixels(image))).toEqual([0, 1]);
+  });
+
+  it('reads opaque references as a greyscale mask', () => {
+    const image = createPixelBuffer(2, 1, new Uint8ClampedArray([0, 0, 0, 255, 255, 255, 255, 255]));
+    const alpha = referenceAlphaFromPixels(image);
+    expect(alpha[0]).toBe(0);
+    expect(alpha[1]).toBeCloseTo(1);
+  });
+});
+
+describe('computeMattingMetrics', () => {
+  it('reports no error for a perfect prediction', () => {
+    const metrics = computeMattingMetrics(squareAlpha(), squareAlpha(), SIZE, SIZE);
+    expect(metrics).toEqual({ iou: 1, sad: 0, mse: 0, gradient: 0, connectivity: 0 });
+  });
+
+  it('reports no overlap for an inverted prediction', () => {
+    const reference = squareAlpha();
+    const predicted = reference.map(value => 1 - value);
+    const metrics = computeMattingMetrics(predicted, reference, SIZE, SIZE);
+
+    expect(metrics.iou).toBe(0);
+    expect(metrics.sad).toBeCloseTo((SIZE * SIZE) / 1000);
+    expect(metrics.mse).toBe(1);
+    expect(metrics.gradient).toBeGreaterThan(0);
+  });
+
+  it('grows with the size of the error', () => {
+    const reference = squareAlpha();
+    const small = reference.slice();
+    small[4 * SIZE + 4] = 0;
+    const large = reference.slice();
+    for (let x = 4; x < 12; x++) large[4 * SIZE + x] = 0;
+
+    const smallMetrics = computeMattingMetrics(small, reference, SIZE, SIZE);
+    const largeMetrics = computeMattingMetrics(large, reference, SIZE, SIZE);
+    expect(largeMetrics.sad).toBeGreaterThan(smallMetrics.sad);
+    expect(largeMetrics.mse).toBeGreaterThan(smallMetrics.mse);
+    expect(largeMetrics.iou).toBeLessThan(smallMetrics.iou);
+  });
+
+  it('rejects alphas of different sizes', () => {
+    expect(() => computeMattingMetrics(new Float32Array(4), new Float32Array(9), 2, 2)).toThrow();
+  });
+
+  it('stops when aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => computeMattingMetrics(squareAlpha(), squareAlpha(), SIZE, SIZE, controller.signal)).toThrow(/cancelled/);
+  });
+});
@@ -0,0 +1,210 @@
+// Ground-truth matting metrics, following the definitions used by the alphamatting.com
+// and Deep Image Matting evaluations. Alphas are 0-1; SAD, gradient and connectivity
+// errors are reported in thousands, as those benchmarks do.
+import { throwIfAborted } from './abort';
+import type { PixelBuffer } from './pixelBuffer';
+
+export interface MattingMetrics {
+  // Intersection over union of the masks thresholded at 0.5
+  iou: number;
+  sad: number;
+  mse: number;
+  gradient: number;
+  connectivity: number;
+}
+
+export const mattingMetricInfo: Record<keyof MattingMetrics, { label: string; higherIsBetter: boolean }> = {
+  iou: { label: 'IoU', higherIsBetter: true },
+  sad: { label: 'SAD', higherIsBetter: false },
+  mse: { label: 'MSE', higherIsBetter: false },
+  gradient: { label: 'Gradient', higherIsBetter: false },
+  connectivity: { label: 'Connectivity', higherIsBetter: false }
+};
+
+const GRADIENT_SIGMA = 1.4;
+const CONNECTIVITY_STEP = 0.1;
+
+// Alpha channel of an RGBA image as 0-1 values
+export const alphaFromPixels = (imageData: PixelBuffer): Float32Array => {
+  const alpha = new Float32Array(imageData.width * imageData.height);
+  for (let index = 0; index < alpha.length; index++) alpha[index] = imageData.data[index * 4 + 3] / 255;
+  return alpha;
+};
+
+// Reference mattes come either as a PNG with alpha or as a greyscale mask on an opaque image
+export const referenceAlphaFromPixels = (imageData: PixelBuffer): Float32Array => {
+  const { data } = imageData;
+  let hasAlpha = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) {
+      hasAlpha = true;
+      break;
+    }
+  }
+
+  if (hasAlpha) return alphaFromPixels(imageData);
+
+  const alpha = new Float32Array(imageData.width * imageData.height);
+  for (let index = 0; index < alpha.length; index++) {
+    const i = index * 4;
+    alpha[index] = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+  }
+  return alpha;
+};
+
+// Gradient magnitude from first-order Gaussian derivative filters
+const gradientMagnitude = (alpha: Float32Array, width: number, height: number): Float32Array => {
+  const radius = Math.ceil(GRADIENT_SIGMA * 3);
+  const gaussian = new Float32Array(radius * 2 + 1);
+  const derivative = new Float32Array(radius * 2 + 1);
+  for (let k = -radius; k <= radius; k++) {
+    const g = Math.exp(-(k * k) / (2 * GRADIENT_SIGMA * GRADIENT_SIGMA));
+    gaussian[k + radius] = g;
+    derivative[k + radius] = -k * g;
+  }
+  const gaussianSum = gaussian.reduce((sum, value) => sum + value, 0);
+  const derivativeNorm = derivative.reduce((sum, value, index) => sum + Math.abs(value * (index - radius)), 0) || 1;
+  for (let k = 0; k < gaussian.length; k++) {
+    gaussian[k] /= gaussianSum;
+    derivative[k] /= derivativeNorm;
+  }
+
+  const convolve = (src: Float32Array, kernel: Float32Array, horizontal: boolean) => {
+    const dst = new Float32Array(src.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          // Clamp to the edge
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          sum += src[sy * width + sx] * kernel[k + radius];
+        }
+        dst[y * width + x] = sum;
+      }
+    }
+    return dst;
+  };
+
+  const dx = convolve(convolve(alpha, derivative, true), gaussian, false);
+  const dy = convolve(convolve(alpha, gaussian, true), derivative, false);
+  const magnitude = new Float32Array(alpha.length);
+  for (let index = 0; index < alpha.length; index++) magnitude[index] = Math.hypot(dx[index], dy[index]);
+  return magnitude;
+};
+
+// Largest 4-connected component of the mask
+const largestComponent = (mask: Uint8Array, width: number): Uint8Array => {
+  const labels = new Int32Array(mask.length);
+  const sizes = [0];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const label = sizes.length;
+    let size = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      size++;
+      const x = index % width;
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const neighbour of neighbours) {
+        if (neighbour < 0 || neighbour >= mask.length || !mask[neighbour] || labels[neighbour]) continue;
+        labels[neighbour] = label;
+        stack.push(neighbour);
+      }
+    }
+    sizes.push(size);
+  }
+
+  let largest = 0;
+  for (let label = 1; label < sizes.length; label++) {
+    if (sizes[label] > sizes[largest]) largest = label;
+  }
+
+  const component = new Uint8Array(mask.length);
+  if (largest === 0) return component;
+  for (let index = 0; index < mask.length; index++) component[index] = labels[index] === largest ? 1 : 0;
+  return component;
+};
+
+// Connectivity error of Rhemann et al.: how much each pixel's connection to the main
+// foreground differs between prediction and reference
+const connectivityError = (predicted: Float32Array, reference: Float32Array, width: number, signal?: AbortSignal): number => {
+  const level = new Float32Array(predicted.length).fill(-1);
+  const mask = new Uint8Array(predicted.length);
+
+  for (let step = 1; step * CONNECTIVITY_STEP <= 1 + 1e-6; step++) {
+    throwIfAborted(signal);
+
+    const threshold = step * CONNECTIVITY_STEP;
+    for (let index = 0; index < mask.length; index++) {
+      mask[index] = predicted[index] >= threshold && reference[index] >= threshold ? 1 : 0;
+    }
+
+    const component = largestComponent(mask, width);
+    for (let index = 0; index < mask.length; index++) {
+      if (level[index] === -1 && !component[index]) level[index] = threshold - CONNECTIVITY_STEP;
+    }
+  }
+
+  let sum = 0;
+  for (let index = 0; index < predicted.length; index++) {
+    const l = level[index] === -1 ? 1 : level[index];
+    const predictedDistance = predicted[index] - l;
+    const referenceDistance = reference[index] - l;
+    const predictedPhi = 1 - (predictedDistance >= 0.15 ? predictedDistance : 0);
+    const referencePhi = 1 - (referenceDistance >= 0.15 ? referenceDistance : 0);
+    sum += Math.abs(predictedPhi - referencePhi);
+  }
+  return sum / 1000;
+};
+
+export const computeMattingMetrics = (
+  predicted: Float32Array,
+  reference: Float32Array,
+  width: number,
+  height: number,
+  signal?: AbortSignal
+): MattingMetrics => {
+  if (predicted.length !== width * height || reference.length !== width * height) {
+    throw new Error('Predicted and reference alpha must have the same size');
+  }
+
+  let intersection = 0;
+  let union = 0;
+  let absolute = 0;
+  let squared = 0;
+
+  for (let index = 0; index < predicted.length; index++) {
+    const p = predicted[index];
+    const r = reference[index];
+    const inPredicted = p >= 0.5;
+    const inReference = r >= 0.5;
+    if (inPredicted && inReference) intersection++;
+    if (inPredicted || inReference) union++;
+    absolute += Math.abs(p - r);
+    squared += (p - r) ** 2;
+  }
+
+  throwIfAborted(signal);
+
+  const predictedGradient = gradientMagnitude(predicted, width, height);
+  const referenceGradient = gradientMagnitude(reference, width, height);
+  let gradient = 0;
+  for (let index = 0; index < predicted.length; index++) {
+    gradient += (predictedGradient[index] - referenceGradient[index]) ** 2;
+  }
+
+  return {
+    // Two empty masks agree perfectly
+    iou: union > 0 ? intersection / union : 1,
+    sad: absolute / 1000,
+    mse: squared / predicted.length,
+    gradient: gradient / 1000,
+    connectivity: connectivityError(predicted, reference, width, signal)
+  };
+};
@@ -0,0 +1,95 @@
+// Conversions between image elements, pixel data and PNG blobs
+import { createAbortError, throwIfAborted } from './abort';
+import type { PixelBuffer } from './pixelBuffer';
+
+// Shrinking a canvas to zero releases its backing store straight away
+export const releaseCanvas = (canvas: HTMLCanvasElement | OffscreenCanvas): void => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
+
+export const imageElementToImageData = (imageElement: HTMLImageElement, signal?: AbortSignal): ImageData => {
+  throwIfAborted(signal);
+  
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  
+  if (!ctx) throw new Error('Could not get canvas context');
+  
+  canvas.width = imageElement.naturalWidth;
+  canvas.height = imageElement.naturalHeight;
+  ctx.drawImage(imageElement, 0, 0);
+  
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  releaseCanvas(canvas);
+  return imageData;
+};
+
+// Decodes at the blob's own size unless a size is given
+export const blobToImageData = async (
+  blob: Blob,
+  signal?: AbortSignal,
+  size?: { width: number; height: number }
+): Promise<ImageData> => {
+  throwIfAborted(signal);
+  
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  
+  try {
+    throwIfAborted(signal);
+    const ctx = canvas.getContext('2d');
+    
+    if (!ctx) throw new Error('Could not get canvas context');
+    
+    canvas.width = size?.width ?? bitmap.width;
+    canvas.height = size?.height ?? bitmap.height;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    bitmap.close();
+    releaseCanvas(canvas);
+  }
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, signal?: AbortSignal): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (signal?.aborted) {
+          reject(createAbortError());
+        } else if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to create blob'));
+        }
+      },
+      'image/png',
+      1.0
+    );
+  });
+};
+
+// Canvas APIs only accept real ImageData, so plain pixel buffers are wrapped without copying
+export const toImageData = (image: PixelBuffer): ImageData => {
+  return image instanceof ImageData ? image : new ImageData(image.data, image.width, image.height);
+};
+
+export const imageDataToBlob = async (image: PixelBuffer, signal?: AbortSignal): Promise<Blob> => {
+  throwIfAborted(signal);
+  
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  
+  if (!ctx) throw new Error('Could not get canvas context');
+  
+  canvas.width = image.width;
+  canvas.height = image.height;
+  ctx.putImageData(toImageData(image), 0, 0);
+  
+  try {
+    return await canvasToBlob(canvas, signal);
+  } finally {
+    releaseCanvas(canvas);
+  }
+};
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkerboardAlgorithm, checkerboardBackgroundRemoval } from './checkerboardAlgorithm';
+import { createPixelBuffer } from './pixelBuffer';
+
+// A grey/white checkerboard with an opaque red square drawn over its middle
+const checkerboardImage = (size: number, cellSize: number) => {
+  const image = createPixelBuffer(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inSquare = x >= size / 4 && x < (size * 3) / 4 && y >= size / 4 && y < (size * 3) / 4;
+      const light = (Math.floor(x / cellSize) + Math.floor(y / cellSize)) % 2 === 0;
+      image.data.set(inSquare ? [220, 30, 30, 255] : light ? [255, 255, 255, 255] : [204, 204, 204, 255], (y * size + x) * 4);
+    }
+  }
+  return image;
+};
+
+const plainImage = (size: number) => {
+  const image = createPixelBuffer(size, size);
+  image.data.fill(255);
+  return image;
+};
+
+describe('checkerboardAlgorithm', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('only applies to images with a baked-in checkerboard', () => {
+    expect(checkerboardAlgorithm.isApplicable!(checkerboardImage(64, 8))).toBe(true);
+    expect(checkerboardAlgorithm.isApplicable!(plainImage(64))).toBe(false);
+  });
+
+  it('clears the checkerboard and keeps the artwork', () => {
+    const output = checkerboardBackgroundRemoval(checkerboardImage(64, 8));
+    expect(output.data[3]).toBe(0);
+    expect(output.data[(10 * 64 + 3) * 4 + 3]).toBe(0);
+    expect(output.data[(32 * 64 + 32) * 4 + 3]).toBe(255);
+  });
+
+  it('fails on images without a checkerboard when run directly', () => {
+    expect(() => checkerboardBackgroundRemoval(plainImage(64))).toThrow(/No checkerboard/);
+  });
+});
@@ -0,0 +1,123 @@
+// Removal of baked-in checkerboards ("fake transparent" PNGs).
+// A flat-colour flood fill stops at the first square of the other colour, so this
+// fill instead compares every pixel with the checker colour expected at its position.
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { detectCheckerboard, getCheckerboardColor } from './checkerboardDetection';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+export interface CheckerboardOptions {
+  tolerance: number;
+}
+
+const DEFAULT_CHECKERBOARD_OPTIONS: CheckerboardOptions = {
+  tolerance: 24
+};
+
+function colorDistance(data: Uint8ClampedArray, index: number, color: [number, number, number]): number {
+  return Math.sqrt((data[index] - color[0]) ** 2 + (data[index + 1] - color[1]) ** 2 + (data[index + 2] - color[2]) ** 2);
+}
+
+export const checkerboardBackgroundRemoval = (
+  imageData: PixelBuffer,
+  options: Partial<CheckerboardOptions> = {},
+  signal?: AbortSignal
+): PixelBuffer => {
+  const opts = { ...DEFAULT_CHECKERBOARD_OPTIONS, ...options };
+
+  try {
+    console.log('Starting checkerboard removal...');
+
+    const { data, width, height } = imageData;
+    const pattern = detectCheckerboard(imageData);
+
+    if (!pattern) {
+      throw new Error('No checkerboard pattern detected in this image');
+    }
+
+    console.log(`Detected ${pattern.cellSize}px checkerboard (confidence ${Math.round(pattern.confidence * 100)}%)`);
+
+    // Distance of each pixel from the checker colour expected at its position
+    const distances = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        const expected = colorDistance(data, index * 4, getCheckerboardColor(pattern, x, y));
+
+        // Resampled images blur the square edges, so either colour is accepted right at a boundary
+        const cellX = (x + pattern.offsetX) % pattern.cellSize;
+        const cellY = (y + pattern.offsetY) % pattern.cellSize;
+        const onBoundary = cellX === 0 || cellY === 0 || cellX === pattern.cellSize - 1 || cellY === pattern.cellSize - 1;
+        distances[index] = onBoundary
+          ? Math.min(expected, colorDistance(data, index * 4, pattern.colors[0]), colorDistance(data, index * 4, pattern.colors[1]))
+          : expected;
+      }
+    }
+
+    throwIfAborted(signal);
+
+    // Flood fill from the whole border through pixels that match the pattern
+    const background = new Uint8Array(width * height);
+    const stack: number[] = [];
+    for (let x = 0; x < width; x++) stack.push(x, (height - 1) * width + x);
+    for (let y = 0; y < height; y++) stack.push(y * width, y * width + width - 1);
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      if (background[index] || distances[index] > opts.tolerance) continue;
+      background[index] = 1;
+
+      const x = index % width;
+      if (x > 0) stack.push(index - 1);
+      if (x < width - 1) stack.push(index + 1);
+      if (index >= width) stack.push(index - width);
+      if (index < width * (height - 1)) stack.push(index + width);
+    }
+
+    throwIfAborted(signal);
+
+    const outputImageData = createPixelBuffer(width, height);
+    const outputData = outputImageData.data;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        const i = index * 4;
+
+        // Copy RGB
+        outputData[i] = data[i];
+        outputData[i + 1] = data[i + 1];
+        outputData[i + 2] = data[i + 2];
+
+        if (background[index]) {
+          outputData[i + 3] = 0;
+          continue;
+        }
+
+        // Pixels next to the removed area fade by how close they are to the pattern
+        const touchesBackground =
+          (x > 0 && background[index - 1]) || (x < width - 1 && background[index + 1]) ||
+          (y > 0 && background[index - width]) || (y < height - 1 && background[index + width]);
+        const coverage = touchesBackground ? Math.min(1, distances[index] / (opts.tolerance * 3)) : 1;
+        outputData[i + 3] = Math.round(coverage * data[i + 3]);
+      }
+    }
+
+    return outputImageData;
+  } catch (error) {
+    console.error('Checkerboard algorithm error:', error);
+    throw error;
+  }
+};
+
+export const checkerboardAlgorithm: AlgorithmDefinition<CheckerboardOptions> = {
+  id: 'checkerboard',
+  name: 'Checkerboard Removal',
+  description: 'For icons with a fake transparency grid baked in',
+  defaultOptions: DEFAULT_CHECKERBOARD_OPTIONS,
+  optionsSchema: [
+    { key: 'tolerance', label: 'Color tolerance', type: 'number', min: 0, max: 100, step: 1 }
+  ],
+  isApplicable: (image) => detectCheckerboard(image) !== null,
+  processPixels: checkerboardBackgroundRemoval
+};
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectCheckerboard, getCheckerboardColor } from './checkerboardDetection';
+import { createPixelBuffer } from './pixelBuffer';
+
+const LIGHT: [number, number, number] = [255, 255, 255];
+const DARK: [number, number, number] = [204, 204, 204];
+
+// A checkerboard with an opaque red square drawn over its middle
+const checkerboardImage = (size: number, cellSize: number, shift = 0) => {
+  const image = createPixelBuffer(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inSquare = x >= size / 4 && x < (size * 3) / 4 && y >= size / 4 && y < (size * 3) / 4;
+      const cell = Math.floor((x + shift) / cellSize) + Math.floor((y + shift) / cellSize);
+      const color = inSquare ? [220, 30, 30] : cell % 2 === 0 ? LIGHT : DARK;
+      image.data.set([...color, 255], (y * size + x) * 4);
+    }
+  }
+  return image;
+};
+
+describe('detectCheckerboard', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('finds the cell size and colours of a baked-in checkerboard', () => {
+    const pattern = detectCheckerboard(checkerboardImage(64, 8));
+
+    expect(pattern).not.toBeNull();
+    expect(pattern!.cellSize).toBe(8);
+    expect(pattern!.colors[0]).toEqual(LIGHT);
+    expect(pattern!.confidence).toBeGreaterThan(0.95);
+  });
+
+  it('follows a grid that does not start on a cell boundary', () => {
+    const image = checkerboardImage(64, 8, 3);
+    const pattern = detectCheckerboard(image)!;
+
+    expect(pattern.cellSize).toBe(8);
+    for (const [x, y] of [[0, 0], [5, 0], [0, 13], [63, 63]]) {
+      const index = (y * 64 + x) * 4;
+      expect(getCheckerboardColor(pattern, x, y)).toEqual(Array.from(image.data.subarray(index, index + 3)));
+    }
+  });
+
+  it('ignores plain backgrounds', () => {
+    const image = createPixelBuffer(32, 32);
+    image.data.fill(255);
+    expect(detectCheckerboard(image)).toBeNull();
+  });
+
+  it('ignores coloured stripes', () => {
+    const image = createPixelBuffer(32, 32);
+    for (let index = 0; index < 32 * 32; index++) {
+      image.data.set(Math.floor((index % 32) / 4) % 2 ? [255, 0, 0, 255] : [0, 0, 255, 255], index * 4);
+    }
+    expect(detectCheckerboard(image)).toBeNull();
+  });
+
+  it('ignores images too small to hold a pattern', () => {
+    expect(detectCheckerboard(checkerboardImage(4, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+// Detection of fake transparency: the grey/white checkerboard that image editors
+// draw behind transparent pixels, baked into the image itself.
+// The border is classified against its two dominant colours, the square size is
+// read from the run lengths along the edges, and the fitted pattern is accepted
+// only if it predicts most of the border.
+import { estimateBackground } from './backgroundEstimation';
+import type { PixelBuffer } from './pixelBuffer';
+
+export interface CheckerboardPattern {
+  // Colour of the square at the top-left cell, then the other colour
+  colors: [[number, number, number], [number, number, number]];
+  cellSize: number;
+  offsetX: number;
+  offsetY: number;
+  // Share of border pixels the pattern predicts
+  confidence: number;
+}
+
+const MIN_CONFIDENCE = 0.85;
+// Checkerboards are drawn in near-neutral greys
+const MAX_CHROMA = 24;
+const MIN_CONTRAST = 12;
+
+const colorDistanceSquared = (data: Uint8ClampedArray, index: number, color: [number, number, number]) => {
+  return (data[index] - color[0]) ** 2 + (data[index + 1] - color[1]) ** 2 + (data[index + 2] - color[2]) ** 2;
+};
+
+const chroma = ([r, g, b]: [number, number, number]) => Math.max(r, g, b) - Math.min(r, g, b);
+
+// Which of the two colours a pixel is closer to
+const classify = (data: Uint8ClampedArray, index: number, colors: CheckerboardPattern['colors']) => {
+  return colorDistanceSquared(data, index, colors[0]) <= colorDistanceSquared(data, index, colors[1]) ? 0 : 1;
+};
+
+// Lengths of runs of the same class along a line, without the cut-off runs at either end
+const runLengths = (classes: number[]): { lengths: number[]; firstTransition: number } => {
+  const lengths: number[] = [];
+  let firstTransition = -1;
+  let runStart = 0;
+
+  for (let i = 1; i < classes.length; i++) {
+    if (classes[i] !== classes[i - 1]) {
+      if (firstTransition < 0) {
+        firstTransition = i;
+      } else {
+        lengths.push(i - runStart);
+      }
+      runStart = i;
+    }
+  }
+
+  return { lengths, firstTransition };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+export const getCheckerboardColor = (pattern: CheckerboardPattern, x: number, y: number): [number, number, number] => {
+  const cellX = Math.floor((x + pattern.offsetX) / pattern.cellSize);
+  const cellY = Math.floor((y + pattern.offsetY) / pattern.cellSize);
+  return pattern.colors[(cellX + cellY) % 2];
+};
+
+export const detectCheckerboard = (imageData: PixelBuffer): CheckerboardPattern | null => {
+  const { data, width, height } = imageData;
+  if (width < 8 || height < 8) return null;
+
+  const clusters = estimateBackground(imageData, { maxClusters: 2, minWeight: 0.2 });
+  if (clusters.length !== 2) return null;
+
+  const [first, second] = clusters.map(cluster => cluster.color);
+  if (chroma(first) > MAX_CHROMA || chroma(second) > MAX_CHROMA) return null;
+  if (Math.abs(first[0] + first[1] + first[2] - second[0] - second[1] - second[2]) / 3 < MIN_CONTRAST) return null;
+
+  const colors: CheckerboardPattern['colors'] = [first, second];
+  const row = Array.from({ length: width }, (_, x) => classify(data, x * 4, colors));
+  const column = Array.from({ length: height }, (_, y) => classify(data, y * width * 4, colors));
+  const horizontal = runLengths(row);
+  const vertical = runLengths(column);
+  const lengths = [...horizontal.lengths, ...vertical.lengths];
+
+  if (lengths.length < 2 || horizontal.firstTransition < 0 || vertical.firstTransition < 0) return null;
+
+  const cellSize = median(lengths);
+  if (cellSize < 2) return null;
+
+  // Shift the grid so cell boundaries fall on the first transitions
+  const offsetX = (cellSize - (horizontal.firstTransition % cellSize)) % cellSize;
+  const offsetY = (cellSize - (vertical.firstTransition % cellSize)) % cellSize;
+  // Make colors[0] the colour of the cell containing the top-left pixel
+  const orderedColors: CheckerboardPattern['colors'] = row[0] === 0 ? colors : [colors[1], colors[0]];
+  const pattern: CheckerboardPattern = { colors: orderedColors, cellSize, offsetX, offsetY, confidence: 0 };
+
+  // Check the prediction on all four edges
+  let matches = 0;
+  let total = 0;
+  const check = (x: number, y: number) => {
+    const index = (y * width + x) * 4;
+    const expected = getCheckerboardColor(pattern, x, y);
+    const other = expected === pattern.colors[0] ? pattern.colors[1] : pattern.colors[0];
+    if (colorDistanceSquared(data, index, expected) < colorDistanceSquared(data, index, other)) matches++;
+    total++;
+  };
+
+  for (let x = 0; x < width; x++) {
+    check(x, 0);
+    check(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    check(0, y);
+    check(width - 1, y);
+  }
+
+  pattern.confidence = matches / total;
+  return pattern.confidence >= MIN_CONFIDENCE ? pattern : null;
+};
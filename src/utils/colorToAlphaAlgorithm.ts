@@ -0,0 +1,105 @@
+// Color to Alpha, after GIMP's filter of the same name.
+// Each pixel is treated as the background colour composited under an unknown
+// foreground colour. The smallest alpha that still reproduces the pixel exactly is
+// kept, so glows, shadows and anti-aliasing become partial transparency instead of
+// being cut off by a tolerance.
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { estimateBackground } from './backgroundEstimation';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+export interface ColorToAlphaOptions {
+  // Alpha below this becomes fully transparent
+  transparencyThreshold: number;
+  // Alpha above this becomes fully opaque
+  opacityThreshold: number;
+}
+
+const DEFAULT_COLOR_TO_ALPHA_OPTIONS: ColorToAlphaOptions = {
+  transparencyThreshold: 0,
+  opacityThreshold: 1
+};
+
+// Smallest alpha for one channel so that pixel = alpha * foreground + (1 - alpha) * background
+// with the foreground still inside 0-1
+function channelAlpha(pixel: number, background: number): number {
+  if (pixel > background) return (pixel - background) / (1 - background);
+  if (pixel < background) return (background - pixel) / background;
+  return 0;
+}
+
+export const colorToAlphaBackgroundRemoval = (
+  imageData: PixelBuffer,
+  options: Partial<ColorToAlphaOptions> = {},
+  signal?: AbortSignal
+): PixelBuffer => {
+  const opts = { ...DEFAULT_COLOR_TO_ALPHA_OPTIONS, ...options };
+  const low = Math.min(opts.transparencyThreshold, opts.opacityThreshold);
+  const high = Math.max(opts.transparencyThreshold, opts.opacityThreshold);
+
+  try {
+    console.log('Starting Color to Alpha background removal...');
+
+    const { data, width, height } = imageData;
+    const backgrounds = estimateBackground(imageData, {}, signal).map(({ color }) => color.map(c => c / 255));
+
+    throwIfAborted(signal);
+
+    const outputImageData = createPixelBuffer(width, height);
+    const outputData = outputImageData.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+      const pixel = [data[i] / 255, data[i + 1] / 255, data[i + 2] / 255];
+
+      // Unmix against the nearest background colour
+      let background = backgrounds[0];
+      let nearest = Infinity;
+      for (const candidate of backgrounds) {
+        const distance = (pixel[0] - candidate[0]) ** 2 + (pixel[1] - candidate[1]) ** 2 + (pixel[2] - candidate[2]) ** 2;
+        if (distance < nearest) {
+          nearest = distance;
+          background = candidate;
+        }
+      }
+
+      let alpha = Math.max(
+        channelAlpha(pixel[0], background[0]),
+        channelAlpha(pixel[1], background[1]),
+        channelAlpha(pixel[2], background[2])
+      );
+
+      if (alpha <= low) {
+        alpha = 0;
+      } else if (alpha >= high) {
+        alpha = 1;
+      } else {
+        alpha = (alpha - low) / (high - low);
+      }
+
+      // Recover the foreground colour that alpha has to carry
+      for (let c = 0; c < 3; c++) {
+        const foreground = alpha > 0 ? (pixel[c] - background[c]) / alpha + background[c] : pixel[c];
+        outputData[i + c] = Math.round(foreground * 255);
+      }
+
+      outputData[i + 3] = Math.round(alpha * data[i + 3]);
+    }
+
+    return outputImageData;
+  } catch (error) {
+    console.error('Color to Alpha algorithm error:', error);
+    throw error;
+  }
+};
+
+export const colorToAlphaAlgorithm: AlgorithmDefinition<ColorToAlphaOptions> = {
+  id: 'color-to-alpha',
+  name: 'Color to Alpha',
+  description: 'Unmixes the background colour into transparency',
+  defaultOptions: DEFAULT_COLOR_TO_ALPHA_OPTIONS,
+  optionsSchema: [
+    { key: 'transparencyThreshold', label: 'Transparency threshold', type: 'number', min: 0, max: 1, step: 0.01 },
+    { key: 'opacityThreshold', label: 'Opacity threshold', type: 'number', min: 0, max: 1, step: 0.01 }
+  ],
+  processPixels: colorToAlphaBackgroundRemoval
+};
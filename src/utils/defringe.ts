@@ -0,0 +1,100 @@
+// Edge colour decontamination (defringing).
+// Partly transparent edge pixels still hold the old background mixed into their
+// colour, which shows up as a halo once the result sits on a different background.
+// With observed = alpha * foreground + (1 - alpha) * background, the foreground
+// colour is recovered from an estimate of the background behind each pixel.
+import { throwIfAborted } from './abort';
+import { boxFilter } from './guidedFilter';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+export interface DefringeOptions {
+  // How far to look for removed background pixels when estimating the local colour
+  radius: number;
+}
+
+const DEFAULT_OPTIONS: DefringeOptions = {
+  radius: 8
+};
+
+// Pixels at or below this alpha count as removed background
+const BACKGROUND_ALPHA = 8;
+// Pixels at or above this alpha are treated as solid foreground and left alone
+const FOREGROUND_ALPHA = 250;
+
+// Average colour of the removed pixels, or of the image border if nothing was removed
+const estimateGlobalBackground = (imageData: PixelBuffer): [number, number, number] => {
+  const { width, height, data } = imageData;
+  const sum = [0, 0, 0];
+  let count = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] <= BACKGROUND_ALPHA) {
+      sum[0] += data[i];
+      sum[1] += data[i + 1];
+      sum[2] += data[i + 2];
+      count++;
+    }
+  }
+
+  if (count === 0) {
+    for (let x = 0; x < width; x++) {
+      for (const y of [0, height - 1]) {
+        const idx = (y * width + x) * 4;
+        sum[0] += data[idx];
+        sum[1] += data[idx + 1];
+        sum[2] += data[idx + 2];
+        count++;
+      }
+    }
+  }
+
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+};
+
+export const decontaminateEdges = (
+  imageData: PixelBuffer,
+  options: Partial<DefringeOptions> = {},
+  signal?: AbortSignal
+): PixelBuffer => {
+  const { radius } = { ...DEFAULT_OPTIONS, ...options };
+  const { width, height, data } = imageData;
+  const size = width * height;
+
+  console.log(`Decontaminating edge colours (radius ${radius})`);
+
+  const globalBackground = estimateGlobalBackground(imageData);
+
+  // Local background colour: mean colour of the removed pixels around each pixel
+  const isBackground = new Float32Array(size);
+  const channels = [new Float32Array(size), new Float32Array(size), new Float32Array(size)];
+  for (let i = 0; i < size; i++) {
+    if (data[i * 4 + 3] <= BACKGROUND_ALPHA) {
+      isBackground[i] = 1;
+      channels[0][i] = data[i * 4];
+      channels[1][i] = data[i * 4 + 1];
+      channels[2][i] = data[i * 4 + 2];
+    }
+  }
+
+  const backgroundDensity = boxFilter(isBackground, width, height, radius);
+  const backgroundSums = channels.map(channel => boxFilter(channel, width, height, radius));
+
+  throwIfAborted(signal);
+
+  const output = createPixelBuffer(width, height, new Uint8ClampedArray(data));
+  for (let i = 0; i < size; i++) {
+    const idx = i * 4;
+    const alpha = data[idx + 3];
+    if (alpha <= BACKGROUND_ALPHA || alpha >= FOREGROUND_ALPHA) continue;
+
+    const a = alpha / 255;
+    const density = backgroundDensity[i];
+
+    for (let c = 0; c < 3; c++) {
+      const background = density > 1e-3 ? backgroundSums[c][i] / density : globalBackground[c];
+      output.data[idx + c] = Math.round((data[idx + c] - (1 - a) * background) / a);
+    }
+  }
+
+  return output;
+};
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { combineAlphas, renderDisagreementMap, renderEnsemble, EnsembleLayer } from './ensemble';
+import { createPixelBuffer } from './pixelBuffer';
+
+// A single-row layer with the given alpha values on grey pixels
+const layer = (algorithm: string, alphas: number[]): EnsembleLayer => {
+  const data = new Uint8ClampedArray(alphas.length * 4);
+  alphas.forEach((alpha, index) => data.set([128, 128, 128, alpha], index * 4));
+  return { algorithm, imageData: createPixelBuffer(alphas.length, 1, data) };
+};
+
+describe('combineAlphas', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const layers = [layer('a', [255, 0, 255]), layer('b', [255, 0, 0]), layer('c', [0, 0, 255])];
+
+  it('averages the alphas with the weighted vote', () => {
+    const { alpha, disagreement } = combineAlphas(layers);
+    expect(alpha[0]).toBeCloseTo(2 / 3);
+    expect(alpha[1]).toBe(0);
+    expect(disagreement[1]).toBe(0);
+    expect(disagreement[0]).toBeGreaterThan(0.9);
+  });
+
+  it('applies the weights, leaving out layers weighted zero', () => {
+    const { alpha } = combineAlphas(layers, { weights: { a: 3, c: 0 } });
+    expect(alpha[0]).toBe(1);
+    expect(alpha[2]).toBeCloseTo(3 / 4);
+  });
+
+  it('takes the majority with the median', () => {
+    const { alpha } = combineAlphas(layers, { method: 'median' });
+    expect(Array.from(alpha)).toEqual([1, 0, 1]);
+  });
+
+  it('leans towards the decisive layers that agree with the rest', () => {
+    const { alpha } = combineAlphas([layer('a', [255]), layer('b', [255]), layer('c', [128])], { method: 'confidence' });
+    const { alpha: mean } = combineAlphas([layer('a', [255]), layer('b', [255]), layer('c', [128])]);
+    expect(alpha[0]).toBeGreaterThan(mean[0]);
+  });
+
+  it('rejects an ensemble without any weighted layer', () => {
+    expect(() => combineAlphas(layers, { weights: { a: 0, b: 0, c: 0 } })).toThrow();
+  });
+
+  it('rejects layers of different sizes', () => {
+    expect(() => combineAlphas([layer('a', [0, 0]), layer('b', [0])])).toThrow();
+  });
+});
+
+describe('rendering', () => {
+  const original = createPixelBuffer(2, 1, new Uint8ClampedArray([10, 20, 30, 255, 40, 50, 60, 255]));
+  const output = { alpha: new Float32Array([1, 0.5]), disagreement: new Float32Array([0, 1]) };
+
+  it('applies the consensus alpha to the original colours', () => {
+    expect(Array.from(renderEnsemble(original, output).data)).toEqual([10, 20, 30, 255, 40, 50, 60, 128]);
+  });
+
+  it('paints full disagreement pure red', () => {
+    const map = renderDisagreementMap(original, output);
+    expect(Array.from(map.data.subarray(4))).toEqual([255, 0, 0, 255]);
+    expect(map.data[0]).toBe(map.data[1]);
+  });
+});
@@ -0,0 +1,147 @@
+// Ensemble of the per-algorithm results: the alpha channels are combined per pixel
+// into one consensus mask, and the spread between them is kept as a disagreement map.
+import { throwIfAborted } from './abort';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+export type EnsembleMethod = 'weighted' | 'median' | 'confidence';
+
+export interface EnsembleOptions {
+  method: EnsembleMethod;
+  // Weight per algorithm id; missing algorithms count as 1 and 0 leaves them out
+  weights: Record<string, number>;
+}
+
+export const DEFAULT_ENSEMBLE_OPTIONS: EnsembleOptions = {
+  method: 'weighted',
+  weights: {}
+};
+
+export const ensembleMethods: { id: EnsembleMethod; label: string; description: string }[] = [
+  { id: 'weighted', label: 'Weighted vote', description: 'Weighted mean of the alphas' },
+  { id: 'median', label: 'Median', description: 'Weighted median, robust to a single algorithm going wrong' },
+  { id: 'confidence', label: 'Per-pixel confidence', description: 'Trusts the algorithms that are decisive and agree with the rest at each pixel' }
+];
+
+export interface EnsembleLayer {
+  algorithm: string;
+  imageData: PixelBuffer;
+}
+
+export interface EnsembleOutput {
+  // Consensus alpha, 0-1
+  alpha: Float32Array;
+  // Weighted standard deviation of the alphas, scaled to 0-1
+  disagreement: Float32Array;
+}
+
+export const getEnsembleWeight = (options: EnsembleOptions, algorithm: string) => options.weights[algorithm] ?? 1;
+
+const weightedMedian = (values: number[], weights: number[], totalWeight: number) => {
+  const order = values.map((_, k) => k).sort((a, b) => values[a] - values[b]);
+  let cumulative = 0;
+  for (const k of order) {
+    cumulative += weights[k];
+    if (cumulative >= totalWeight / 2) return values[k];
+  }
+  return values[order[order.length - 1]];
+};
+
+export const combineAlphas = (
+  layers: EnsembleLayer[],
+  options: Partial<EnsembleOptions> = {},
+  signal?: AbortSignal
+): EnsembleOutput => {
+  const opts = { ...DEFAULT_ENSEMBLE_OPTIONS, ...options };
+  const active = layers.filter(({ algorithm }) => getEnsembleWeight(opts, algorithm) > 0);
+
+  if (active.length === 0) {
+    throw new Error('The ensemble needs at least one algorithm with a weight above zero');
+  }
+
+  const { width, height } = active[0].imageData;
+  if (active.some(({ imageData }) => imageData.width !== width || imageData.height !== height)) {
+    throw new Error('All ensemble layers must have the same size');
+  }
+
+  console.log(`Combining ${active.length} alpha masks (${opts.method})`);
+
+  const pixelCount = width * height;
+  const alpha = new Float32Array(pixelCount);
+  const disagreement = new Float32Array(pixelCount);
+  const weights = active.map(({ algorithm }) => getEnsembleWeight(opts, algorithm));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const values = new Array<number>(active.length);
+  const pixelWeights = new Array<number>(active.length);
+
+  for (let index = 0; index < pixelCount; index++) {
+    if (index % width === 0) throwIfAborted(signal);
+
+    let mean = 0;
+    for (let k = 0; k < active.length; k++) {
+      values[k] = active[k].imageData.data[index * 4 + 3] / 255;
+      mean += weights[k] * values[k];
+    }
+    mean /= totalWeight;
+
+    let variance = 0;
+    for (let k = 0; k < active.length; k++) variance += weights[k] * (values[k] - mean) ** 2;
+    // The standard deviation of values in 0-1 is at most 0.5
+    disagreement[index] = Math.min(1, Math.sqrt(variance / totalWeight) * 2);
+
+    if (opts.method === 'median') {
+      alpha[index] = weightedMedian(values, weights, totalWeight);
+    } else if (opts.method === 'confidence') {
+      // Without ground truth, confidence comes from the layers themselves:
+      // how far each alpha is from undecided, times how close it is to the consensus
+      let sum = 0;
+      let weightSum = 0;
+      for (let k = 0; k < active.length; k++) {
+        const decisiveness = Math.abs(values[k] * 2 - 1);
+        const agreement = 1 - Math.abs(values[k] - mean);
+        pixelWeights[k] = weights[k] * (0.05 + decisiveness * agreement);
+        sum += pixelWeights[k] * values[k];
+        weightSum += pixelWeights[k];
+      }
+      alpha[index] = sum / weightSum;
+    } else {
+      alpha[index] = mean;
+    }
+  }
+
+  return { alpha, disagreement };
+};
+
+// Applies the consensus alpha to the original colours
+export const renderEnsemble = (original: PixelBuffer, output: EnsembleOutput): PixelBuffer => {
+  const { data, width, height } = original;
+  const imageData = createPixelBuffer(width, height);
+
+  for (let index = 0; index < width * height; index++) {
+    const i = index * 4;
+    imageData.data[i] = data[i];
+    imageData.data[i + 1] = data[i + 1];
+    imageData.data[i + 2] = data[i + 2];
+    imageData.data[i + 3] = Math.round(output.alpha[index] * data[i + 3]);
+  }
+
+  return imageData;
+};
+
+// Dimmed greyscale original with the disagreement painted over it in red
+export const renderDisagreementMap = (original: PixelBuffer, output: EnsembleOutput): PixelBuffer => {
+  const { data, width, height } = original;
+  const imageData = createPixelBuffer(width, height);
+
+  for (let index = 0; index < width * height; index++) {
+    const i = index * 4;
+    const grey = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) * 0.4 + 40;
+    const amount = output.disagreement[index];
+
+    imageData.data[i] = Math.round(grey + (255 - grey) * amount);
+    imageData.data[i + 1] = Math.round(grey * (1 - amount));
+    imageData.data[i + 2] = Math.round(grey * (1 - amount));
+    imageData.data[i + 3] = 255;
+  }
+
+  return imageData;
+};
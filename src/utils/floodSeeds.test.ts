@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { getSeedColor, hasBackgroundSeeds, selectFromSeeds, FloodSeed, SEED_BACKGROUND, SEED_KEEP, SEED_UNSELECTED } from './floodSeeds';
+import { backgroundDistance, createBackgroundCluster } from './backgroundEstimation';
+import { createPixelBuffer } from './pixelBuffer';
+
+// Left half white, right half black, with a grey pixel in the white half
+const twoToneImage = () => {
+  const image = createPixelBuffer(4, 2);
+  for (let index = 0; index < 8; index++) {
+    const value = index % 4 < 2 ? 255 : 0;
+    image.data.set([value, value, value, 255], index * 4);
+  }
+  image.data.set([128, 128, 128, 255], 4);
+  return image;
+};
+
+const seed = (x: number, y: number, mode: FloodSeed['mode'], tolerance = 30): FloodSeed => ({ id: `${x},${y}`, x, y, mode, tolerance });
+
+describe('selectFromSeeds', () => {
+  it('gives null without seeds', () => {
+    expect(selectFromSeeds(twoToneImage(), [])).toBeNull();
+  });
+
+  it('marks keep regions even without background seeds', () => {
+    const seeds = [seed(0.99, 0, 'keep')];
+    expect(hasBackgroundSeeds(seeds)).toBe(false);
+    expect(Array.from(selectFromSeeds(twoToneImage(), seeds)!)).toEqual([0, 0, 2, 2, 0, 0, 2, 2]);
+  });
+
+  it('selects the connected region of similar colour', () => {
+    const selection = selectFromSeeds(twoToneImage(), [seed(0, 0, 'background')])!;
+    expect(Array.from(selection)).toEqual([1, 0, 0, 0, 1, 1, 0, 0]);
+  });
+
+  it('takes in more colours with a higher tolerance', () => {
+    const selection = selectFromSeeds(twoToneImage(), [seed(0, 0, 'background', 250)])!;
+    expect(selection[1]).toBe(SEED_BACKGROUND);
+    expect(selection[2]).toBe(SEED_UNSELECTED);
+  });
+
+  it('measures tolerance on the same scale as the algorithms', () => {
+    const image = twoToneImage();
+    const white = [createBackgroundCluster([255, 255, 255])];
+    const distance = backgroundDistance(128, 128, 128, white);
+
+    // Grey is 220 from white in plain RGB, but closer in the Lab-based distance
+    expect(distance).toBeLessThan(215);
+    expect(selectFromSeeds(image, [seed(0, 0, 'background', distance - 1)])![1]).toBe(SEED_UNSELECTED);
+    expect(selectFromSeeds(image, [seed(0, 0, 'background', distance + 1)])![1]).toBe(SEED_BACKGROUND);
+  });
+
+  it('lets keep seeds win where regions overlap', () => {
+    const selection = selectFromSeeds(twoToneImage(), [seed(0, 0, 'background'), seed(0, 0.99, 'keep')])!;
+    expect(selection[0]).toBe(SEED_KEEP);
+    expect(selection[2]).toBe(SEED_UNSELECTED);
+  });
+
+  it('stops when aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => selectFromSeeds(twoToneImage(), [seed(0, 0, 'background')], controller.signal)).toThrow(/cancelled/);
+  });
+});
+
+describe('getSeedColor', () => {
+  it('reads the pixel under the relative position, clamped to the image', () => {
+    const image = twoToneImage();
+    expect(getSeedColor(image, seed(0.3, 0, 'background'))).toEqual([128, 128, 128]);
+    expect(getSeedColor(image, seed(1, 1, 'background'))).toEqual([0, 0, 0]);
+  });
+});
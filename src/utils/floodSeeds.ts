@@ -0,0 +1,86 @@
+// Magic wand seeds picked by clicking on the original image.
+// Background seeds flood-fill the connected region of similar colour around them;
+// keep seeds protect their region from being removed, also when there are no
+// background seeds and the algorithm makes its own selection. Seed positions are stored
+// relative to the image size so they survive the SVG to PNG upscaling.
+//
+// Tolerances use the same Lab-based distance as the algorithms' colour tolerances.
+import { throwIfAborted } from './abort';
+import { backgroundDistance, createBackgroundCluster } from './backgroundEstimation';
+import type { PixelBuffer } from './pixelBuffer';
+
+export type SeedMode = 'background' | 'keep';
+
+export interface FloodSeed {
+  id: string;
+  // Position as a fraction of the image width and height
+  x: number;
+  y: number;
+  mode: SeedMode;
+  tolerance: number;
+}
+
+export const DEFAULT_SEED_TOLERANCE = 30;
+
+// Values of the selection returned by selectFromSeeds
+export const SEED_UNSELECTED = 0;
+export const SEED_BACKGROUND = 1;
+export const SEED_KEEP = 2;
+
+const seedPixel = (seed: FloodSeed, width: number, height: number) => ({
+  x: Math.min(width - 1, Math.max(0, Math.floor(seed.x * width))),
+  y: Math.min(height - 1, Math.max(0, Math.floor(seed.y * height)))
+});
+
+export const getSeedColor = (imageData: PixelBuffer, seed: FloodSeed): [number, number, number] => {
+  const { x, y } = seedPixel(seed, imageData.width, imageData.height);
+  const index = (y * imageData.width + x) * 4;
+  return [imageData.data[index], imageData.data[index + 1], imageData.data[index + 2]];
+};
+
+// Marks the 4-connected region around the seed whose colour is within its tolerance
+const floodFromSeed = (imageData: PixelBuffer, seed: FloodSeed, selection: Uint8Array, value: number) => {
+  const { data, width, height } = imageData;
+  const target = [createBackgroundCluster(getSeedColor(imageData, seed))];
+  const visited = new Uint8Array(width * height);
+  const start = seedPixel(seed, width, height);
+  const stack = [start.y * width + start.x];
+
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (visited[index]) continue;
+    visited[index] = 1;
+
+    const idx = index * 4;
+    if (backgroundDistance(data[idx], data[idx + 1], data[idx + 2], target) > seed.tolerance) continue;
+
+    selection[index] = value;
+
+    const x = index % width;
+    if (x > 0) stack.push(index - 1);
+    if (x < width - 1) stack.push(index + 1);
+    if (index >= width) stack.push(index - width);
+    if (index < width * (height - 1)) stack.push(index + width);
+  }
+};
+
+// Without background seeds callers fall back to their own guess of the background,
+// still honouring the keep regions of the selection
+export const hasBackgroundSeeds = (seeds: FloodSeed[] = []): boolean => seeds.some(seed => seed.mode === 'background');
+
+// Returns null when there are no seeds at all
+export const selectFromSeeds = (imageData: PixelBuffer, seeds: FloodSeed[] = [], signal?: AbortSignal): Uint8Array | null => {
+  if (seeds.length === 0) return null;
+
+  const backgroundSeeds = seeds.filter(seed => seed.mode === 'background');
+
+  const selection = new Uint8Array(imageData.width * imageData.height);
+
+  // Keep seeds are applied last so they win where regions overlap
+  for (const seed of [...backgroundSeeds, ...seeds.filter(seed => seed.mode === 'keep')]) {
+    throwIfAborted(signal);
+    floodFromSeed(imageData, seed, selection, seed.mode === 'background' ? SEED_BACKGROUND : SEED_KEEP);
+  }
+
+  return selection;
+};
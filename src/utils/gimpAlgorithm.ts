@@ -1,8 +1,16 @@
 // GIMP-inspired algorithm using color selection and feathering
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { FloodSeed, SEED_BACKGROUND, SEED_KEEP, hasBackgroundSeeds, selectFromSeeds } from './floodSeeds';
+import { backgroundDistance, estimateBackground } from './backgroundEstimation';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
 export interface GimpOptions {
   colorTolerance: number;
   featherRadius: number;
   antiAlias: boolean;
+  // Clicked background seeds replace the select-by-colour pass; keep seeds protect their region either way
+  seeds?: FloodSeed[];
 }
 
 const DEFAULT_GIMP_OPTIONS: GimpOptions = {
@@ -16,12 +24,6 @@ function getPixelColor(data: Uint8ClampedArray, x: number, y: number, width: num
   return [data[index], data[index + 1], data[index + 2]];
 }
 
-function colorDistance(color1: [number, number, number], color2: [number, number, number]): number {
-  const [r1, g1, b1] = color1;
-  const [r2, g2, b2] = color2;
-  return Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2);
-}
-
 function gaussianBlur(data: number[], width: number, height: number, radius: number): number[] {
   const result = new Array(data.length);
   const sigma = radius / 3;
@@ -74,58 +76,91 @@ function gaussianBlur(data: number[], width: number, height: number, radius: num
   return result;
 }
 
-export const gimpBackgroundRemoval = async (imageElement: HTMLImageElement, options: Partial<GimpOptions> = {}): Promise<Blob> => {
+// Averages each pixel with its 8 neighbours, so a hard selection edge gets partial coverage
+function antiAliasSelection(data: number[], width: number, height: number): number[] {
+  const result = new Array(data.length);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          sum += data[ny * width + nx];
+          count++;
+        }
+      }
+      result[y * width + x] = sum / count;
+    }
+  }
+  
+  return result;
+}
+
+export const gimpBackgroundRemoval = (
+  imageData: PixelBuffer,
+  options: Partial<GimpOptions> = {},
+  signal?: AbortSignal
+): PixelBuffer => {
   const opts = { ...DEFAULT_GIMP_OPTIONS, ...options };
   
   try {
     console.log('Starting GIMP-style background removal...');
     
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) throw new Error('Could not get canvas context');
-    
-    canvas.width = imageElement.naturalWidth;
-    canvas.height = imageElement.naturalHeight;
-    ctx.drawImage(imageElement, 0, 0);
-    
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
     const { data, width, height } = imageData;
     
-    // Sample background colors from corners
-    const corners = [
-      getPixelColor(data, 0, 0, width),
-      getPixelColor(data, width - 1, 0, width),
-      getPixelColor(data, 0, height - 1, width),
-      getPixelColor(data, width - 1, height - 1, width)
-    ];
-    
-    // Use the most common corner color as background
-    const backgroundColor = corners[0]; // Simplified for this implementation
-    
     // Create selection mask
     const mask: number[] = new Array(width * height).fill(0);
+    const seeded = selectFromSeeds(imageData, opts.seeds, signal);
     
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const pixelColor = getPixelColor(data, x, y, width);
-        const distance = colorDistance(pixelColor, backgroundColor);
-        
-        if (distance <= opts.colorTolerance) {
-          mask[y * width + x] = 1; // Background
+    if (seeded && hasBackgroundSeeds(opts.seeds)) {
+      console.log(`Selecting background from ${opts.seeds?.length} seeds`);
+      
+      for (let i = 0; i < mask.length; i++) {
+        if (seeded[i] === SEED_BACKGROUND) mask[i] = 1; // Background
+      }
+    } else {
+      // Select every pixel close to any of the background colours, like GIMP's select by color
+      const background = estimateBackground(imageData, {}, signal);
+      
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const distance = backgroundDistance(...getPixelColor(data, x, y, width), background);
+          
+          if (distance <= opts.colorTolerance && seeded?.[y * width + x] !== SEED_KEEP) {
+            mask[y * width + x] = 1; // Background
+          }
         }
       }
     }
     
+    throwIfAborted(signal);
+    
     // Apply feathering (Gaussian blur to the mask)
     let alphaMask: number[] = mask.map(x => x === 1 ? 0 : 1); // Invert mask
+    
+    if (opts.antiAlias) {
+      alphaMask = antiAliasSelection(alphaMask, width, height);
+    }
   
     if (opts.featherRadius > 0) {
       alphaMask = gaussianBlur(alphaMask, width, height, opts.featherRadius);
     }
     
+    // Softened edges must not eat into protected regions
+    if (seeded) {
+      for (let i = 0; i < alphaMask.length; i++) {
+        if (seeded[i] === SEED_KEEP) alphaMask[i] = 1;
+      }
+    }
+    
+    throwIfAborted(signal);
+    
     // Apply the mask
-    const outputImageData = ctx.createImageData(width, height);
+    const outputImageData = createPixelBuffer(width, height);
     const outputData = outputImageData.data;
     
     for (let i = 0; i < data.length; i += 4) {
@@ -140,17 +175,23 @@ export const gimpBackgroundRemoval = async (imageElement: HTMLImageElement, opti
       outputData[i + 3] = Math.round(alphaMask[pixelIndex] * 255);
     }
     
-    ctx.putImageData(outputImageData, 0, 0);
-    
-    return new Promise((resolve, reject) => {
-      canvas.toBlob(
-        (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob')),
-        'image/png',
-        1.0
-      );
-    });
+    return outputImageData;
   } catch (error) {
     console.error('GIMP algorithm error:', error);
     throw error;
   }
 };
+
+export const gimpAlgorithm: AlgorithmDefinition<GimpOptions> = {
+  id: 'gimp',
+  name: 'GIMP-style',
+  description: 'Color selection with feathering',
+  defaultOptions: DEFAULT_GIMP_OPTIONS,
+  optionsSchema: [
+    { key: 'colorTolerance', label: 'Color tolerance', type: 'number', min: 0, max: 150, step: 1 },
+    { key: 'featherRadius', label: 'Feather radius', type: 'number', min: 0, max: 10, step: 0.5 },
+    { key: 'antiAlias', label: 'Anti-aliasing', type: 'boolean' }
+  ],
+  supportsSeeds: true,
+  processPixels: gimpBackgroundRemoval
+};
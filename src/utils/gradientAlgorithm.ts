@@ -0,0 +1,215 @@
+// Gradient and vignette background removal.
+// Instead of a single flat colour, a smooth polynomial surface is fitted to the
+// background, starting from the border and then refitting on every pixel that
+// already matches it. Each pixel is keyed against the surface value at its own
+// position, so linear and radial gradients come out fully transparent.
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+export interface GradientOptions {
+  // Polynomial degree of the background surface; 2 already covers radial vignettes
+  degree: number;
+  tolerance: number;
+  softness: number;
+}
+
+const DEFAULT_GRADIENT_OPTIONS: GradientOptions = {
+  degree: 2,
+  tolerance: 30,
+  softness: 30
+};
+
+const FIT_ITERATIONS = 3;
+const MAX_FIT_SAMPLES = 20000;
+
+function termCount(degree: number): number {
+  return ((degree + 1) * (degree + 2)) / 2;
+}
+
+// Powers of a normalised coordinate, indexed by [position * (degree + 1) + power]
+function coordinatePowers(size: number, degree: number): Float64Array {
+  const powers = new Float64Array(size * (degree + 1));
+  for (let p = 0; p < size; p++) {
+    const t = size > 1 ? (p / (size - 1)) * 2 - 1 : 0;
+    let value = 1;
+    for (let power = 0; power <= degree; power++) {
+      powers[p * (degree + 1) + power] = value;
+      value *= t;
+    }
+  }
+  return powers;
+}
+
+function fillTerms(terms: Float64Array, xPowers: Float64Array, yPowers: Float64Array, x: number, y: number, degree: number): void {
+  let k = 0;
+  for (let i = 0; i <= degree; i++) {
+    for (let j = 0; j <= degree - i; j++) {
+      terms[k++] = xPowers[x * (degree + 1) + i] * yPowers[y * (degree + 1) + j];
+    }
+  }
+}
+
+// Solves the n×n system in place with Gaussian elimination and partial pivoting
+function solveLinearSystem(matrix: Float64Array, rhs: Float64Array, n: number): Float64Array {
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(matrix[row * n + col]) > Math.abs(matrix[pivot * n + col])) pivot = row;
+    }
+
+    if (pivot !== col) {
+      for (let k = 0; k < n; k++) {
+        [matrix[col * n + k], matrix[pivot * n + k]] = [matrix[pivot * n + k], matrix[col * n + k]];
+      }
+      [rhs[col], rhs[pivot]] = [rhs[pivot], rhs[col]];
+    }
+
+    const diagonal = matrix[col * n + col] || 1e-12;
+    for (let row = col + 1; row < n; row++) {
+      const factor = matrix[row * n + col] / diagonal;
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) matrix[row * n + k] -= factor * matrix[col * n + k];
+      rhs[row] -= factor * rhs[col];
+    }
+  }
+
+  const solution = new Float64Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rhs[row];
+    for (let k = row + 1; k < n; k++) sum -= matrix[row * n + k] * solution[k];
+    solution[row] = sum / (matrix[row * n + row] || 1e-12);
+  }
+  return solution;
+}
+
+// Least-squares fit of one polynomial per colour channel to the sampled pixels
+function fitSurface(
+  imageData: PixelBuffer,
+  samples: number[],
+  xPowers: Float64Array,
+  yPowers: Float64Array,
+  degree: number
+): Float64Array[] {
+  const { data, width } = imageData;
+  const n = termCount(degree);
+  const normal = new Float64Array(n * n);
+  const rhs = [new Float64Array(n), new Float64Array(n), new Float64Array(n)];
+  const terms = new Float64Array(n);
+
+  for (const index of samples) {
+    fillTerms(terms, xPowers, yPowers, index % width, Math.floor(index / width), degree);
+    for (let a = 0; a < n; a++) {
+      for (let b = 0; b < n; b++) normal[a * n + b] += terms[a] * terms[b];
+      for (let c = 0; c < 3; c++) rhs[c][a] += terms[a] * data[index * 4 + c];
+    }
+  }
+
+  // A small ridge keeps the system solvable when samples only cover the border
+  for (let a = 0; a < n; a++) normal[a * n + a] += 1e-6;
+
+  return rhs.map(channel => solveLinearSystem(normal.slice(), channel, n));
+}
+
+function surfaceDistance(
+  data: Uint8ClampedArray,
+  index: number,
+  terms: Float64Array,
+  coefficients: Float64Array[]
+): number {
+  let sum = 0;
+  for (let c = 0; c < 3; c++) {
+    let value = 0;
+    for (let k = 0; k < terms.length; k++) value += coefficients[c][k] * terms[k];
+    sum += (data[index * 4 + c] - value) ** 2;
+  }
+  return Math.sqrt(sum);
+}
+
+export const gradientBackgroundRemoval = (
+  imageData: PixelBuffer,
+  options: Partial<GradientOptions> = {},
+  signal?: AbortSignal
+): PixelBuffer => {
+  const opts = { ...DEFAULT_GRADIENT_OPTIONS, ...options };
+  const degree = Math.max(0, Math.round(opts.degree));
+
+  try {
+    console.log('Starting gradient background removal...');
+
+    const { data, width, height } = imageData;
+    const xPowers = coordinatePowers(width, degree);
+    const yPowers = coordinatePowers(height, degree);
+    const terms = new Float64Array(termCount(degree));
+
+    // Fit on a sparse grid of pixels to keep large images fast
+    const step = Math.max(1, Math.floor(Math.sqrt((width * height) / MAX_FIT_SAMPLES)));
+    const strip = Math.max(1, Math.min(8, Math.round(Math.min(width, height) * 0.02)));
+    const grid: number[] = [];
+    for (let y = 0; y < height; y += step) {
+      for (let x = 0; x < width; x += step) grid.push(y * width + x);
+    }
+
+    let samples = grid.filter(index => {
+      const x = index % width;
+      const y = Math.floor(index / width);
+      return x < strip || y < strip || x >= width - strip || y >= height - strip;
+    });
+    let coefficients = fitSurface(imageData, samples, xPowers, yPowers, degree);
+
+    // Refit on every grid pixel that already looks like background
+    for (let iteration = 1; iteration < FIT_ITERATIONS; iteration++) {
+      throwIfAborted(signal);
+
+      samples = grid.filter(index => {
+        fillTerms(terms, xPowers, yPowers, index % width, Math.floor(index / width), degree);
+        return surfaceDistance(data, index, terms, coefficients) <= opts.tolerance;
+      });
+
+      if (samples.length < terms.length) break;
+      coefficients = fitSurface(imageData, samples, xPowers, yPowers, degree);
+    }
+
+    throwIfAborted(signal);
+
+    const outputImageData = createPixelBuffer(width, height);
+    const outputData = outputImageData.data;
+    const softness = Math.max(1e-6, opts.softness);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        const i = index * 4;
+        fillTerms(terms, xPowers, yPowers, x, y, degree);
+        const distance = surfaceDistance(data, index, terms, coefficients);
+
+        // Copy RGB
+        outputData[i] = data[i];
+        outputData[i + 1] = data[i + 1];
+        outputData[i + 2] = data[i + 2];
+
+        // Ramp from transparent at the tolerance to opaque at tolerance + softness
+        const coverage = Math.max(0, Math.min(1, (distance - opts.tolerance) / softness));
+        outputData[i + 3] = Math.round(coverage * data[i + 3]);
+      }
+    }
+
+    return outputImageData;
+  } catch (error) {
+    console.error('Gradient algorithm error:', error);
+    throw error;
+  }
+};
+
+export const gradientAlgorithm: AlgorithmDefinition<GradientOptions> = {
+  id: 'gradient',
+  name: 'Gradient Background',
+  description: 'Fits a smooth surface for gradients and vignettes',
+  defaultOptions: DEFAULT_GRADIENT_OPTIONS,
+  optionsSchema: [
+    { key: 'degree', label: 'Surface degree', type: 'number', min: 1, max: 4, step: 1 },
+    { key: 'tolerance', label: 'Color tolerance', type: 'number', min: 0, max: 150, step: 1 },
+    { key: 'softness', label: 'Edge softness', type: 'number', min: 0, max: 100, step: 1 }
+  ],
+  processPixels: gradientBackgroundRemoval
+};
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { boxFilter, refineAlphaWithGuidedFilter } from './guidedFilter';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+const WIDTH = 32;
+const HEIGHT = 8;
+
+// Two colours of about the same luminance meeting at the given column
+const isoluminantImage = (edge: number): PixelBuffer => {
+  const image = createPixelBuffer(WIDTH, HEIGHT);
+  for (let index = 0; index < WIDTH * HEIGHT; index++) {
+    image.data.set(index % WIDTH < edge ? [200, 60, 60, 255] : [40, 132, 40, 255], index * 4);
+  }
+  return image;
+};
+
+// Grey output whose alpha edge sits a few pixels off the real one
+const blockyOutput = (edge: number): PixelBuffer => {
+  const image = createPixelBuffer(WIDTH, HEIGHT);
+  for (let index = 0; index < WIDTH * HEIGHT; index++) {
+    image.data.set([128, 128, 128, index % WIDTH < edge ? 0 : 255], index * 4);
+  }
+  return image;
+};
+
+describe('boxFilter', () => {
+  it('averages over the window, shrinking it at the borders', () => {
+    const output = boxFilter(new Float32Array([0, 3, 6, 9]), 4, 1, 1);
+    expect(Array.from(output)).toEqual([1.5, 3, 6, 7.5]);
+  });
+});
+
+describe('refineAlphaWithGuidedFilter', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('snaps the alpha to an edge that only differs in colour', () => {
+    const alphaProfile = (guide: PixelBuffer) => {
+      const refined = refineAlphaWithGuidedFilter(blockyOutput(14), guide, { radius: 4, epsilon: 0.0001 });
+      return (x: number) => refined.data[(4 * WIDTH + x) * 4 + 3];
+    };
+    const colour = alphaProfile(isoluminantImage(16));
+    const flat = alphaProfile(blockyOutput(0));
+
+    expect(colour(16) - colour(15)).toBeGreaterThan(100);
+    expect(colour(16)).toBeGreaterThan(250);
+    expect(colour(4)).toBe(0);
+    // Without colour information the edge is only smoothed
+    expect(flat(16) - flat(15)).toBeLessThan(40);
+  });
+
+  it('keeps the colours of the image being refined', () => {
+    const refined = refineAlphaWithGuidedFilter(blockyOutput(14), isoluminantImage(16));
+    expect(Array.from(refined.data.subarray(0, 3))).toEqual([128, 128, 128]);
+  });
+
+  it('rejects a guide of another size', () => {
+    expect(() => refineAlphaWithGuidedFilter(blockyOutput(14), createPixelBuffer(4, 4))).toThrow();
+  });
+});
@@ -0,0 +1,182 @@
+// Guided filter (He et al.) for refining alpha mattes.
+// The alpha channel is filtered with the original image's colours as guidance, so
+// soft or blocky mask edges snap to the real edges of strokes and anti-aliased
+// outlines while flat regions keep their alpha.
+import { throwIfAborted } from './abort';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+export interface GuidedFilterOptions {
+  // Window radius in pixels
+  radius: number;
+  // Regularization; smaller values follow the guide's edges more closely
+  epsilon: number;
+}
+
+const DEFAULT_OPTIONS: GuidedFilterOptions = {
+  radius: 4,
+  epsilon: 0.001
+};
+
+// Mean over a (2r+1)² window, shrinking the window at the borders
+export const boxFilter = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const horizontal = new Float32Array(src.length);
+  const output = new Float32Array(src.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    let count = 0;
+
+    for (let x = 0; x <= Math.min(radius, width - 1); x++) {
+      sum += src[row + x];
+      count++;
+    }
+
+    for (let x = 0; x < width; x++) {
+      horizontal[row + x] = sum / count;
+
+      const add = x + radius + 1;
+      const remove = x - radius;
+      if (add < width) {
+        sum += src[row + add];
+        count++;
+      }
+      if (remove >= 0) {
+        sum -= src[row + remove];
+        count--;
+      }
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    let count = 0;
+
+    for (let y = 0; y <= Math.min(radius, height - 1); y++) {
+      sum += horizontal[y * width + x];
+      count++;
+    }
+
+    for (let y = 0; y < height; y++) {
+      output[y * width + x] = sum / count;
+
+      const add = y + radius + 1;
+      const remove = y - radius;
+      if (add < height) {
+        sum += horizontal[add * width + x];
+        count++;
+      }
+      if (remove >= 0) {
+        sum -= horizontal[remove * width + x];
+        count--;
+      }
+    }
+  }
+
+  return output;
+};
+
+// Refines the alpha of imageData using the colours of guide, normally the original image.
+// This is the colour version of the filter: each window fits alpha as a linear function
+// of R, G and B together, so edges between colours of equal brightness are kept too.
+export const refineAlphaWithGuidedFilter = (
+  imageData: PixelBuffer,
+  guide: PixelBuffer,
+  options: Partial<GuidedFilterOptions> = {},
+  signal?: AbortSignal
+): PixelBuffer => {
+  const { radius, epsilon } = { ...DEFAULT_OPTIONS, ...options };
+  const { width, height, data } = imageData;
+  const size = width * height;
+
+  if (guide.width !== width || guide.height !== height) {
+    throw new Error('The guide image must have the same size as the image being refined');
+  }
+
+  console.log(`Refining alpha with guided filter (radius ${radius}, epsilon ${epsilon})`);
+
+  const mean = (values: Float32Array) => boxFilter(values, width, height, radius);
+  const channels = [0, 1, 2].map(() => new Float32Array(size));
+  const alpha = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const idx = i * 4;
+    channels[0][i] = guide.data[idx] / 255;
+    channels[1][i] = guide.data[idx + 1] / 255;
+    channels[2][i] = guide.data[idx + 2] / 255;
+    alpha[i] = data[idx + 3] / 255;
+  }
+
+  // Window means of the guide, the alpha, their products and the guide's channel products
+  const product = (a: Float32Array, b: Float32Array) => mean(a.map((value, i) => value * b[i]));
+  const [meanR, meanG, meanB] = channels.map(mean);
+  const meanAlpha = mean(alpha);
+  const [meanRAlpha, meanGAlpha, meanBAlpha] = channels.map(channel => product(channel, alpha));
+
+  throwIfAborted(signal);
+
+  const [r, g, b] = channels;
+  const meanRR = product(r, r);
+  const meanRG = product(r, g);
+  const meanRB = product(r, b);
+  const meanGG = product(g, g);
+  const meanGB = product(g, b);
+  const meanBB = product(b, b);
+
+  throwIfAborted(signal);
+
+  // Per-window linear model alpha ≈ aR * R + aG * G + aB * B + b, solved with the
+  // regularised 3x3 colour covariance; the product buffers are reused for the coefficients
+  const coefficientR = meanRAlpha;
+  const coefficientG = meanGAlpha;
+  const coefficientB = meanBAlpha;
+  const offset = meanAlpha.slice();
+
+  for (let i = 0; i < size; i++) {
+    const covR = meanRAlpha[i] - meanR[i] * meanAlpha[i];
+    const covG = meanGAlpha[i] - meanG[i] * meanAlpha[i];
+    const covB = meanBAlpha[i] - meanB[i] * meanAlpha[i];
+
+    const rr = meanRR[i] - meanR[i] * meanR[i] + epsilon;
+    const rg = meanRG[i] - meanR[i] * meanG[i];
+    const rb = meanRB[i] - meanR[i] * meanB[i];
+    const gg = meanGG[i] - meanG[i] * meanG[i] + epsilon;
+    const gb = meanGB[i] - meanG[i] * meanB[i];
+    const bb = meanBB[i] - meanB[i] * meanB[i] + epsilon;
+
+    // Inverse of the symmetric covariance matrix through its cofactors
+    const invRR = gg * bb - gb * gb;
+    const invRG = gb * rb - rg * bb;
+    const invRB = rg * gb - gg * rb;
+    const invGG = rr * bb - rb * rb;
+    const invGB = rb * rg - rr * gb;
+    const invBB = rr * gg - rg * rg;
+    const determinant = rr * invRR + rg * invRG + rb * invRB;
+
+    const aR = (covR * invRR + covG * invRG + covB * invRB) / determinant;
+    const aG = (covR * invRG + covG * invGG + covB * invGB) / determinant;
+    const aB = (covR * invRB + covG * invGB + covB * invBB) / determinant;
+
+    coefficientR[i] = aR;
+    coefficientG[i] = aG;
+    coefficientB[i] = aB;
+    offset[i] = meanAlpha[i] - aR * meanR[i] - aG * meanG[i] - aB * meanB[i];
+  }
+
+  throwIfAborted(signal);
+
+  const meanCoefficientR = mean(coefficientR);
+  const meanCoefficientG = mean(coefficientG);
+  const meanCoefficientB = mean(coefficientB);
+  const meanOffset = mean(offset);
+
+  throwIfAborted(signal);
+
+  const output = createPixelBuffer(width, height, new Uint8ClampedArray(data));
+  for (let i = 0; i < size; i++) {
+    const refined = meanCoefficientR[i] * r[i] + meanCoefficientG[i] * g[i] + meanCoefficientB[i] * b[i] + meanOffset[i];
+    output.data[i * 4 + 3] = Math.round(Math.max(0, Math.min(1, refined)) * 255);
+  }
+
+  return output;
+};
@@ -1,8 +1,16 @@
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { FloodSeed, SEED_BACKGROUND, SEED_KEEP, getSeedColor, hasBackgroundSeeds, selectFromSeeds } from './floodSeeds';
+import { BackgroundCluster, backgroundDistance, createBackgroundCluster, estimateBackground } from './backgroundEstimation';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
 
 export interface IconProcessingOptions {
   tolerance: number;
   edgeThreshold: number;
   smoothing: boolean;
+  // Clicked magic wand seeds; without background seeds the fill starts from the corners,
+  // and keep seeds protect their region either way
+  seeds?: FloodSeed[];
 }
 
 const DEFAULT_OPTIONS: IconProcessingOptions = {
@@ -11,54 +19,10 @@ const DEFAULT_OPTIONS: IconProcessingOptions = {
   smoothing: true
 };
 
-function getColorDistance(color1: [number, number, number], color2: [number, number, number]): number {
-  const [r1, g1, b1] = color1;
-  const [r2, g2, b2] = color2;
-  return Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2);
-}
-
-function sampleBackgroundColor(imageData: ImageData): [number, number, number] {
-  const { data, width, height } = imageData;
-  const samples: [number, number, number][] = [];
-  
-  // Sample from corners and edges
-  const samplePoints = [
-    [0, 0], [width - 1, 0], [0, height - 1], [width - 1, height - 1], // corners
-    [Math.floor(width / 2), 0], [Math.floor(width / 2), height - 1], // top/bottom center
-    [0, Math.floor(height / 2)], [width - 1, Math.floor(height / 2)] // left/right center
-  ];
-  
-  samplePoints.forEach(([x, y]) => {
-    const index = (y * width + x) * 4;
-    samples.push([data[index], data[index + 1], data[index + 2]]);
-  });
-  
-  // Find the most common color (background)
-  const colorCounts = new Map<string, { count: number; color: [number, number, number] }>();
-  
-  samples.forEach(color => {
-    const key = color.join(',');
-    if (colorCounts.has(key)) {
-      colorCounts.get(key)!.count++;
-    } else {
-      colorCounts.set(key, { count: 1, color });
-    }
-  });
-  
-  let maxCount = 0;
-  let backgroundColor: [number, number, number] = [255, 255, 255];
-  
-  colorCounts.forEach(({ count, color }) => {
-    if (count > maxCount) {
-      maxCount = count;
-      backgroundColor = color;
-    }
-  });
-  
-  return backgroundColor;
-}
+// The option runs from 0 to 100; the default of 10 is a Sobel magnitude of 50
+const EDGE_THRESHOLD_SCALE = 5;
 
-function detectEdges(imageData: ImageData): boolean[] {
+function detectEdges(imageData: PixelBuffer, threshold: number): boolean[] {
   const { data, width, height } = imageData;
   const edges = new Array(width * height).fill(false);
   
@@ -77,14 +41,14 @@ function detectEdges(imageData: ImageData): boolean[] {
         data[((y + 1) * width + (x - 1)) * 4] + 2 * data[((y + 1) * width + x) * 4] + data[((y + 1) * width + (x + 1)) * 4];
       
       const magnitude = Math.sqrt(gx * gx + gy * gy);
-      edges[y * width + x] = magnitude > 50; // Edge threshold
+      edges[y * width + x] = magnitude > threshold * EDGE_THRESHOLD_SCALE;
     }
   }
   
   return edges;
 }
 
-function floodFill(imageData: ImageData, startX: number, startY: number, targetColor: [number, number, number], tolerance: number): boolean[] {
+function floodFill(imageData: PixelBuffer, startX: number, startY: number, background: BackgroundCluster[], tolerance: number): boolean[] {
   const { data, width, height } = imageData;
   const filled = new Array(width * height).fill(false);
   const stack = [[startX, startY]];
@@ -97,9 +61,8 @@ function floodFill(imageData: ImageData, startX: number, startY: number, targetC
     }
     
     const index = (y * width + x) * 4;
-    const currentColor: [number, number, number] = [data[index], data[index + 1], data[index + 2]];
     
-    if (getColorDistance(currentColor, targetColor) <= tolerance) {
+    if (backgroundDistance(data[index], data[index + 1], data[index + 2], background) <= tolerance) {
       filled[y * width + x] = true;
       
       // Add neighbors to stack
@@ -110,52 +73,60 @@ function floodFill(imageData: ImageData, startX: number, startY: number, targetC
   return filled;
 }
 
-export const removeIconBackground = async (imageElement: HTMLImageElement, options: Partial<IconProcessingOptions> = {}): Promise<Blob> => {
+export const removeIconBackground = (
+  imageData: PixelBuffer,
+  options: Partial<IconProcessingOptions> = {},
+  signal?: AbortSignal
+): PixelBuffer => {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  const { width, height } = imageData;
   
   try {
     console.log('Starting icon background removal...');
+    console.log(`Processing image: ${width}x${height}`);
     
-    // Create canvas and get image data
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) throw new Error('Could not get canvas context');
+    const seeded = selectFromSeeds(imageData, opts.seeds, signal);
+    const mask = new Array(width * height).fill(false);
+    let background: BackgroundCluster[];
     
-    canvas.width = imageElement.naturalWidth;
-    canvas.height = imageElement.naturalHeight;
-    ctx.drawImage(imageElement, 0, 0);
-    
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    console.log(`Processing image: ${canvas.width}x${canvas.height}`);
-    
-    // Sample background color
-    const backgroundColor = sampleBackgroundColor(imageData);
-    console.log('Detected background color:', backgroundColor);
-    
-    // Create mask using flood fill from corners
-    const mask = new Array(canvas.width * canvas.height).fill(false);
-    
-    // Start flood fill from corners
-    const corners = [
-      [0, 0],
-      [canvas.width - 1, 0],
-      [0, canvas.height - 1],
-      [canvas.width - 1, canvas.height - 1]
-    ];
-    
-    corners.forEach(([x, y]) => {
-      const cornerFill = floodFill(imageData, x, y, backgroundColor, opts.tolerance);
+    if (seeded && hasBackgroundSeeds(opts.seeds)) {
+      console.log(`Flood filling from ${opts.seeds?.length} seeds`);
+      background = opts.seeds!
+        .filter(seed => seed.mode === 'background')
+        .map(seed => createBackgroundCluster(getSeedColor(imageData, seed)));
+      
       for (let i = 0; i < mask.length; i++) {
-        if (cornerFill[i]) mask[i] = true;
+        mask[i] = seeded[i] === SEED_BACKGROUND;
       }
-    });
+    } else {
+      // Estimate the background colours from the border
+      background = estimateBackground(imageData, {}, signal);
+      
+      // Start flood fill from corners
+      const corners = [
+        [0, 0],
+        [width - 1, 0],
+        [0, height - 1],
+        [width - 1, height - 1]
+      ];
+      
+      corners.forEach(([x, y]) => {
+        const cornerFill = floodFill(imageData, x, y, background, opts.tolerance);
+        for (let i = 0; i < mask.length; i++) {
+          if (cornerFill[i]) mask[i] = true;
+        }
+      });
+    }
+    
+    throwIfAborted(signal);
     
     // Detect edges to preserve fine details
-    const edges = detectEdges(imageData);
+    const edges = detectEdges(imageData, opts.edgeThreshold);
+    
+    throwIfAborted(signal);
     
     // Apply mask to create transparency
-    const outputImageData = ctx.createImageData(canvas.width, canvas.height);
+    const outputImageData = createPixelBuffer(width, height);
     const outputData = outputImageData.data;
     
     for (let i = 0; i < imageData.data.length; i += 4) {
@@ -169,16 +140,13 @@ export const removeIconBackground = async (imageElement: HTMLImageElement, optio
       outputData[i + 2] = imageData.data[i + 2];
       
       // Set alpha based on whether it's background or foreground
-      if (isBackground && !isEdge) {
+      if (seeded?.[pixelIndex] === SEED_KEEP) {
+        outputData[i + 3] = imageData.data[i + 3]; // Protected by a keep seed
+      } else if (isBackground && !isEdge) {
         outputData[i + 3] = 0; // Transparent
       } else {
         // Check color similarity for anti-aliasing
-        const currentColor: [number, number, number] = [
-          imageData.data[i],
-          imageData.data[i + 1],
-          imageData.data[i + 2]
-        ];
-        const colorDistance = getColorDistance(currentColor, backgroundColor);
+        const colorDistance = backgroundDistance(imageData.data[i], imageData.data[i + 1], imageData.data[i + 2], background);
         
         if (colorDistance < opts.tolerance) {
           // Gradually fade based on distance
@@ -194,15 +162,16 @@ export const removeIconBackground = async (imageElement: HTMLImageElement, optio
     if (opts.smoothing) {
       // Simple blur on alpha channel for smoother edges
       const smoothData = new Uint8ClampedArray(outputData);
-      for (let y = 1; y < canvas.height - 1; y++) {
-        for (let x = 1; x < canvas.width - 1; x++) {
-          const index = (y * canvas.width + x) * 4 + 3;
+      for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+          if (seeded?.[y * width + x] === SEED_KEEP) continue;
+          const index = (y * width + x) * 4 + 3;
           
           const neighbors = [
-            outputData[((y - 1) * canvas.width + x) * 4 + 3],
-            outputData[(y * canvas.width + (x - 1)) * 4 + 3],
-            outputData[(y * canvas.width + (x + 1)) * 4 + 3],
-            outputData[((y + 1) * canvas.width + x) * 4 + 3],
+            outputData[((y - 1) * width + x) * 4 + 3],
+            outputData[(y * width + (x - 1)) * 4 + 3],
+            outputData[(y * width + (x + 1)) * 4 + 3],
+            outputData[((y + 1) * width + x) * 4 + 3],
           ];
           
           const avgAlpha = neighbors.reduce((a, b) => a + b, outputData[index]) / 5;
@@ -212,25 +181,32 @@ export const removeIconBackground = async (imageElement: HTMLImageElement, optio
       outputData.set(smoothData);
     }
     
-    ctx.putImageData(outputImageData, 0, 0);
     console.log('Icon background removed successfully');
-    
-    // Convert to blob
-    return new Promise((resolve, reject) => {
-      canvas.toBlob(
-        (blob) => {
-          if (blob) {
-            resolve(blob);
-          } else {
-            reject(new Error('Failed to create blob'));
-          }
-        },
-        'image/png',
-        1.0
-      );
-    });
+    return outputImageData;
   } catch (error) {
     console.error('Error removing icon background:', error);
     throw error;
   }
 };
+
+export const iconAlgorithm: AlgorithmDefinition<IconProcessingOptions> = {
+  id: 'icon',
+  name: 'Icon Algorithm',
+  description: 'Best for solid color backgrounds',
+  defaultOptions: { ...DEFAULT_OPTIONS, tolerance: 35 },
+  optionsSchema: [
+    { key: 'tolerance', label: 'Color tolerance', type: 'number', min: 0, max: 150, step: 1 },
+    {
+      key: 'edgeThreshold',
+      label: 'Edge threshold',
+      type: 'number',
+      min: 0,
+      max: 100,
+      step: 1,
+      description: 'Background pixels on edges stronger than this are kept; raise it to remove more around outlines'
+    },
+    { key: 'smoothing', label: 'Edge smoothing', type: 'boolean' }
+  ],
+  supportsSeeds: true,
+  processPixels: removeIconBackground
+};
@@ -1,8 +1,14 @@
-
 // Inkscape-inspired algorithm for vector-like processing
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { backgroundDistance, estimateBackground } from './backgroundEstimation';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
 export interface InkscapeOptions {
   threshold: number;
+  // Median filter passes before tracing; each one rounds off more noise and small detail
   simplification: number;
+  // Softens the stair-stepped edges of the alpha
   smoothing: boolean;
 }
 
@@ -37,6 +43,30 @@ function medianFilter(data: Uint8ClampedArray, width: number, height: number, ch
   data.set(result);
 }
 
+// 3x3 mean of the alpha channel
+function smoothAlpha(data: Uint8ClampedArray, width: number, height: number): void {
+  const result = new Uint8ClampedArray(data);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          sum += data[(ny * width + nx) * 4 + 3];
+          count++;
+        }
+      }
+      result[(y * width + x) * 4 + 3] = Math.round(sum / count);
+    }
+  }
+  
+  data.set(result);
+}
+
 function detectEdges(data: Uint8ClampedArray, width: number, height: number): number[] {
   const edges = new Array(width * height).fill(0);
   
@@ -65,52 +95,40 @@ function detectEdges(data: Uint8ClampedArray, width: number, height: number): nu
   return edges;
 }
 
-export const inkscapeBackgroundRemoval = async (imageElement: HTMLImageElement, options: Partial<InkscapeOptions> = {}): Promise<Blob> => {
+export const inkscapeBackgroundRemoval = (
+  imageData: PixelBuffer,
+  options: Partial<InkscapeOptions> = {},
+  signal?: AbortSignal
+): PixelBuffer => {
   const opts = { ...DEFAULT_INKSCAPE_OPTIONS, ...options };
   
   try {
     console.log('Starting Inkscape-style background removal...');
     
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) throw new Error('Could not get canvas context');
-    
-    canvas.width = imageElement.naturalWidth;
-    canvas.height = imageElement.naturalHeight;
-    ctx.drawImage(imageElement, 0, 0);
-    
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const { data, width, height } = imageData;
+    const { width, height } = imageData;
+    // Work on a copy so the caller's pixels are left untouched by the median filter
+    const data = new Uint8ClampedArray(imageData.data);
     
     // Apply median filter for noise reduction
-    medianFilter(data, width, height, 0); // R
-    medianFilter(data, width, height, 1); // G
-    medianFilter(data, width, height, 2); // B
+    for (let pass = 0; pass < opts.simplification; pass++) {
+      medianFilter(data, width, height, 0); // R
+      medianFilter(data, width, height, 1); // G
+      medianFilter(data, width, height, 2); // B
+      throwIfAborted(signal);
+    }
     
     // Detect edges
     const edges = detectEdges(data, width, height);
-    const maxEdge = Math.max(...edges);
-    
-    // Sample background from corners
-    const corners = [
-      [0, 0], [width - 1, 0], [0, height - 1], [width - 1, height - 1]
-    ];
+    // Spreading a full-image array into Math.max overflows the stack on large images
+    const maxEdge = edges.reduce((max, value) => Math.max(max, value), 0);
     
-    const backgroundColors = corners.map(([x, y]) => {
-      const index = (y * width + x) * 4;
-      return [data[index], data[index + 1], data[index + 2]];
-    });
+    // Estimate background colours from the filtered border
+    const background = estimateBackground(createPixelBuffer(width, height, data), {}, signal);
     
-    // Use average of corner colors
-    const backgroundColor = [
-      Math.round(backgroundColors.reduce((sum, color) => sum + color[0], 0) / 4),
-      Math.round(backgroundColors.reduce((sum, color) => sum + color[1], 0) / 4),
-      Math.round(backgroundColors.reduce((sum, color) => sum + color[2], 0) / 4)
-    ];
+    throwIfAborted(signal);
     
     // Create alpha mask
-    const outputImageData = ctx.createImageData(width, height);
+    const outputImageData = createPixelBuffer(width, height);
     const outputData = outputImageData.data;
     
     for (let i = 0; i < data.length; i += 4) {
@@ -124,11 +142,7 @@ export const inkscapeBackgroundRemoval = async (imageElement: HTMLImageElement,
       outputData[i + 2] = data[i + 2];
       
       // Calculate color difference
-      const colorDiff = Math.sqrt(
-        (data[i] - backgroundColor[0]) ** 2 +
-        (data[i + 1] - backgroundColor[1]) ** 2 +
-        (data[i + 2] - backgroundColor[2]) ** 2
-      );
+      const colorDiff = backgroundDistance(data[i], data[i + 1], data[i + 2], background);
       
       // Consider edge strength
       const edgeStrength = edges[pixelIndex] / maxEdge;
@@ -143,17 +157,26 @@ export const inkscapeBackgroundRemoval = async (imageElement: HTMLImageElement,
       outputData[i + 3] = alpha;
     }
     
-    ctx.putImageData(outputImageData, 0, 0);
+    if (opts.smoothing) {
+      smoothAlpha(outputData, width, height);
+    }
     
-    return new Promise((resolve, reject) => {
-      canvas.toBlob(
-        (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob')),
-        'image/png',
-        1.0
-      );
-    });
+    return outputImageData;
   } catch (error) {
     console.error('Inkscape algorithm error:', error);
     throw error;
   }
 };
+
+export const inkscapeAlgorithm: AlgorithmDefinition<InkscapeOptions> = {
+  id: 'inkscape',
+  name: 'Inkscape-style',
+  description: 'Vector-like edge detection',
+  defaultOptions: DEFAULT_INKSCAPE_OPTIONS,
+  optionsSchema: [
+    { key: 'threshold', label: 'Color threshold', type: 'number', min: 0, max: 255, step: 1 },
+    { key: 'simplification', label: 'Simplification', type: 'number', min: 0, max: 10, step: 1 },
+    { key: 'smoothing', label: 'Smoothing', type: 'boolean' }
+  ],
+  processPixels: inkscapeBackgroundRemoval
+};
@@ -1,50 +1,30 @@
 
 // InSPyReNet-inspired algorithm for salient object detection
-import { pipeline, env } from '@huggingface/transformers';
+import { segmentImage, RMBG_MODEL } from './modelManager';
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+import { normalizeMask, upsampleMask } from './maskUpsampling';
 
-env.allowLocalModels = false;
-env.useBrowserCache = false;
-
-export const inspyrenetBackgroundRemoval = async (imageElement: HTMLImageElement): Promise<Blob> => {
+export const inspyrenetBackgroundRemoval = async (image: PixelBuffer, signal?: AbortSignal): Promise<PixelBuffer> => {
   try {
+    throwIfAborted(signal);
     console.log('Starting InSPyReNet-style background removal...');
     
     // Use a salient object detection model similar to InSPyReNet
-    const segmenter = await pipeline('image-segmentation', 'briaai/RMBG-1.4', {
-      device: 'webgpu',
-    });
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) throw new Error('Could not get canvas context');
-    
-    canvas.width = imageElement.naturalWidth;
-    canvas.height = imageElement.naturalHeight;
-    ctx.drawImage(imageElement, 0, 0);
-    
-    const imageData = canvas.toDataURL('image/jpeg', 0.9);
-    const result = await segmenter(imageData);
+    const result = await segmentImage(RMBG_MODEL, image, signal);
     
     if (!result || !Array.isArray(result) || result.length === 0 || !result[0].mask) {
       throw new Error('Invalid segmentation result');
     }
     
-    const outputCanvas = document.createElement('canvas');
-    outputCanvas.width = canvas.width;
-    outputCanvas.height = canvas.height;
-    const outputCtx = outputCanvas.getContext('2d');
-    
-    if (!outputCtx) throw new Error('Could not get output canvas context');
-    
-    outputCtx.drawImage(canvas, 0, 0);
-    
-    const outputImageData = outputCtx.getImageData(0, 0, outputCanvas.width, outputCanvas.height);
-    const data = outputImageData.data;
+    const output = createPixelBuffer(image.width, image.height, new Uint8ClampedArray(image.data));
+    const data = output.data;
+    const mask = upsampleMask(normalizeMask(result[0].mask), image, {}, signal);
     
     // Apply salient object detection with enhanced edge preservation
-    for (let i = 0; i < result[0].mask.data.length; i++) {
-      const maskValue = result[0].mask.data[i];
+    for (let i = 0; i < mask.length; i++) {
+      const maskValue = mask[i];
       
       // Apply InSPyReNet-style refinement for better salient object detection
       let alpha = Math.round(maskValue * 255);
@@ -63,17 +43,19 @@ export const inspyrenetBackgroundRemoval = async (imageElement: HTMLImageElement
       data[i * 4 + 3] = alpha;
     }
     
-    outputCtx.putImageData(outputImageData, 0, 0);
-    
-    return new Promise((resolve, reject) => {
-      outputCanvas.toBlob(
-        (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob')),
-        'image/png',
-        1.0
-      );
-    });
+    return output;
   } catch (error) {
     console.error('InSPyReNet algorithm error:', error);
     throw error;
   }
 };
+
+export const inspyrenetAlgorithm: AlgorithmDefinition<Record<string, never>> = {
+  id: 'inspyrenet',
+  name: 'InSPyReNet',
+  description: 'Salient object detection',
+  defaultOptions: {},
+  optionsSchema: [],
+  models: [RMBG_MODEL],
+  run: (image, _options, signal) => inspyrenetBackgroundRemoval(image, signal)
+};
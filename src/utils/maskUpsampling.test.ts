@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeMask, upsampleMask } from './maskUpsampling';
+import { createPixelBuffer } from './pixelBuffer';
+
+// Black on the left, white on the right, with the edge at the given column
+const splitGuide = (width: number, height: number, edge: number) => {
+  const guide = createPixelBuffer(width, height);
+  for (let index = 0; index < width * height; index++) {
+    const value = index % width < edge ? 0 : 255;
+    guide.data.set([value, value, value, 255], index * 4);
+  }
+  return guide;
+};
+
+describe('upsampleMask', () => {
+  it('copies a mask that already has the full size', () => {
+    const mask = { data: [0, 0.5, 1, 0.25], width: 2, height: 2 };
+    expect(Array.from(upsampleMask(mask, splitGuide(2, 2, 1)))).toEqual([0, 0.5, 1, 0.25]);
+  });
+
+  it('keeps the units of the mask values', () => {
+    const mask = { data: new Uint8Array(16).fill(200), width: 4, height: 4 };
+    const output = upsampleMask(mask, splitGuide(16, 16, 8));
+    output.forEach(value => expect(value).toBeCloseTo(200));
+  });
+
+  it('puts the mask edge on the edge of the guide', () => {
+    // The low resolution mask has its edge a little to the left of the real one
+    const mask = { data: new Float32Array(16), width: 4, height: 1 };
+    mask.data.set([0, 1, 1, 1]);
+    const output = upsampleMask(mask, splitGuide(16, 1, 6));
+
+    expect(output[5]).toBeLessThan(0.1);
+    expect(output[6]).toBeGreaterThan(0.9);
+  });
+
+  it('interpolates smoothly where the guide is flat', () => {
+    const mask = { data: new Float32Array([0, 1]), width: 2, height: 1 };
+    const output = upsampleMask(mask, splitGuide(8, 1, 0));
+
+    for (let x = 1; x < 8; x++) expect(output[x]).toBeGreaterThanOrEqual(output[x - 1]);
+    expect(output[3]).toBeGreaterThan(0);
+    expect(output[4]).toBeLessThan(1);
+  });
+});
+
+describe('normalizeMask', () => {
+  it('maps 8-bit mask values to 0-1', () => {
+    const mask = normalizeMask({ data: new Uint8Array([0, 51, 255]), width: 3, height: 1 });
+    expect(mask).toMatchObject({ width: 3, height: 1 });
+    expect(Array.from(mask.data)).toEqual([0, 0.2, 1].map(value => Math.fround(value)));
+  });
+});
@@ -0,0 +1,130 @@
+// Upsamples low resolution segmentation masks to the full image size.
+// Models run on a downscaled copy of the image, so their mask is smaller than the
+// output. A joint bilateral upsampler uses the full resolution pixels as a guide,
+// which keeps mask edges on the object's real edges instead of blurring them.
+import { throwIfAborted } from './abort';
+import type { PixelBuffer } from './pixelBuffer';
+
+export interface SegmentationMask {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+}
+
+export interface MaskUpsamplingOptions {
+  // How strongly color differences reduce a neighbour's weight, in 0-255 units
+  rangeSigma: number;
+}
+
+const DEFAULT_OPTIONS: MaskUpsamplingOptions = {
+  rangeSigma: 24
+};
+
+// Neighbours within this many mask pixels contribute to each output pixel
+const SUPPORT = 2;
+
+// Segmentation pipelines return their masks as 8-bit images, while the alpha mappings
+// of the model algorithms work on 0-1 values
+export const normalizeMask = (mask: SegmentationMask): SegmentationMask => ({
+  width: mask.width,
+  height: mask.height,
+  data: Float32Array.from(mask.data, value => value / 255)
+});
+
+// Mask values keep the units of the input mask, so callers can apply the same alpha mapping
+export const upsampleMask = (
+  mask: SegmentationMask,
+  guide: PixelBuffer,
+  options: Partial<MaskUpsamplingOptions> = {},
+  signal?: AbortSignal
+): Float32Array => {
+  const { rangeSigma } = { ...DEFAULT_OPTIONS, ...options };
+  const { width, height, data } = guide;
+  const output = new Float32Array(width * height);
+
+  if (mask.width === width && mask.height === height) {
+    for (let i = 0; i < output.length; i++) output[i] = mask.data[i];
+    return output;
+  }
+
+  const scaleX = mask.width / width;
+  const scaleY = mask.height / height;
+
+  // Guide color at the centre of every mask pixel
+  const lowColors = new Uint8ClampedArray(mask.width * mask.height * 3);
+  for (let my = 0; my < mask.height; my++) {
+    const gy = Math.min(height - 1, Math.floor((my + 0.5) / scaleY));
+    for (let mx = 0; mx < mask.width; mx++) {
+      const gx = Math.min(width - 1, Math.floor((mx + 0.5) / scaleX));
+      const src = (gy * width + gx) * 4;
+      const dst = (my * mask.width + mx) * 3;
+      lowColors[dst] = data[src];
+      lowColors[dst + 1] = data[src + 1];
+      lowColors[dst + 2] = data[src + 2];
+    }
+  }
+
+  // Range weights indexed by the summed absolute RGB difference
+  const rangeWeights = new Float32Array(766);
+  for (let diff = 0; diff < rangeWeights.length; diff++) {
+    const perChannel = diff / 3;
+    rangeWeights[diff] = Math.exp(-(perChannel * perChannel) / (2 * rangeSigma * rangeSigma));
+  }
+
+  for (let y = 0; y < height; y++) {
+    if (y % 64 === 0) throwIfAborted(signal);
+
+    // Position of this pixel in mask coordinates, measured from mask pixel centres
+    const sy = (y + 0.5) * scaleY - 0.5;
+    const baseY = Math.floor(sy);
+
+    for (let x = 0; x < width; x++) {
+      const sx = (x + 0.5) * scaleX - 0.5;
+      const baseX = Math.floor(sx);
+      const idx = (y * width + x) * 4;
+      const r = data[idx];
+      const g = data[idx + 1];
+      const b = data[idx + 2];
+
+      let weightedSum = 0;
+      let totalWeight = 0;
+      let bilinearSum = 0;
+      let bilinearWeight = 0;
+
+      for (let my = baseY - SUPPORT + 1; my <= baseY + SUPPORT; my++) {
+        if (my < 0 || my >= mask.height) continue;
+        const wy = 1 - Math.abs(sy - my) / SUPPORT;
+        if (wy <= 0) continue;
+
+        for (let mx = baseX - SUPPORT + 1; mx <= baseX + SUPPORT; mx++) {
+          if (mx < 0 || mx >= mask.width) continue;
+          const wx = 1 - Math.abs(sx - mx) / SUPPORT;
+          if (wx <= 0) continue;
+
+          const maskIndex = my * mask.width + mx;
+          const colorIndex = maskIndex * 3;
+          const diff = Math.abs(r - lowColors[colorIndex]) +
+                       Math.abs(g - lowColors[colorIndex + 1]) +
+                       Math.abs(b - lowColors[colorIndex + 2]);
+          const spatial = wx * wy;
+          const weight = spatial * rangeWeights[diff];
+          const value = mask.data[maskIndex];
+
+          weightedSum += value * weight;
+          totalWeight += weight;
+          bilinearSum += value * spatial;
+          bilinearWeight += spatial;
+        }
+      }
+
+      // Pixels unlike every neighbour (thin details) fall back to plain interpolation
+      if (totalWeight > 1e-4) {
+        output[y * width + x] = weightedSum / totalWeight;
+      } else if (bilinearWeight > 0) {
+        output[y * width + x] = bilinearSum / bilinearWeight;
+      }
+    }
+  }
+
+  return output;
+};
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+import { segmentImage } from './modelManager';
+import { aiBackgroundRemoval } from './aiAlgorithm';
+import { rembgBackgroundRemoval } from './rembgAlgorithm';
+import { modnetBackgroundRemoval } from './modnetAlgorithm';
+import { inspyrenetBackgroundRemoval } from './inspyrenetAlgorithm';
+
+// The real model manager loads transformers.js; the tests only need its mask output
+vi.mock('./modelManager', () => ({
+  RMBG_MODEL: 'rmbg',
+  U2NET_MODEL: 'u2net',
+  segmentImage: vi.fn()
+}));
+
+const WIDTH = 64;
+
+// A soft left-to-right ramp, the way the pipeline returns it: one 8-bit channel
+const gradientMask = (width: number, height: number) => {
+  const data = new Uint8Array(width * height);
+  for (let index = 0; index < data.length; index++) data[index] = Math.round(((index % width) / (width - 1)) * 255);
+  return { data, width, height, channels: 1 };
+};
+
+const greyImage = (width: number, height: number): PixelBuffer => {
+  const image = createPixelBuffer(width, height);
+  image.data.fill(128);
+  return image;
+};
+
+const alphas = (image: PixelBuffer) => new Set(Array.from({ length: image.width * image.height }, (_, index) => image.data[index * 4 + 3]));
+
+describe.each([
+  ['ai', aiBackgroundRemoval],
+  ['rembg', rembgBackgroundRemoval],
+  ['modnet', modnetBackgroundRemoval],
+  ['inspyrenet', inspyrenetBackgroundRemoval]
+])('%s', (_id, removeBackground) => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a soft mask soft', async () => {
+    vi.mocked(segmentImage).mockResolvedValue([{ mask: gradientMask(WIDTH, 4) }] as never);
+    const output = await removeBackground(greyImage(WIDTH, 4));
+    const values = alphas(output);
+
+    expect([...values].filter(value => value > 0 && value < 255).length).toBeGreaterThan(WIDTH / 4);
+    expect(output.data[3]).toBe(0);
+    expect(output.data[(WIDTH - 1) * 4 + 3]).toBe(255);
+  });
+
+  it('keeps a soft mask soft when upsampling it', async () => {
+    vi.mocked(segmentImage).mockResolvedValue([{ mask: gradientMask(WIDTH / 4, 1) }] as never);
+    const output = await removeBackground(greyImage(WIDTH, 4));
+
+    expect([...alphas(output)].filter(value => value > 0 && value < 255).length).toBeGreaterThan(WIDTH / 8);
+  });
+});
@@ -0,0 +1,232 @@
+// Shared loader for the transformers.js segmentation models. Each model is loaded
+// once and kept warm across images until it is explicitly unloaded.
+import { pipeline, env, RawImage } from '@huggingface/transformers';
+import { raceWithAbort, throwIfAborted } from './abort';
+import type { PixelBuffer } from './pixelBuffer';
+import { detectBackendSupport, getBackendFallbackChain, backendLabels, ModelBackend } from './backendDetection';
+
+// Locally hosted weights live under this path, e.g. public/models/briaai/RMBG-1.4/
+export const LOCAL_MODEL_PATH = import.meta.env.VITE_LOCAL_MODEL_PATH || '/models/';
+// In offline mode nothing is ever fetched from the Hugging Face hub
+export const OFFLINE_MODE = import.meta.env.VITE_OFFLINE_MODE === 'true';
+
+env.localModelPath = LOCAL_MODEL_PATH;
+env.allowRemoteModels = !OFFLINE_MODE;
+env.useBrowserCache = false;
+
+// onnxruntime-web fetches its WASM binaries from a CDN unless told otherwise
+if (import.meta.env.VITE_ONNX_WASM_PATH) {
+  env.backends.onnx.wasm.wasmPaths = import.meta.env.VITE_ONNX_WASM_PATH;
+}
+
+export const RMBG_MODEL = 'briaai/RMBG-1.4';
+export const U2NET_MODEL = 'Xenova/u2net';
+
+export const SEGMENTATION_MODELS = [RMBG_MODEL, U2NET_MODEL];
+
+export type ModelLoadState = 'idle' | 'loading' | 'ready' | 'error';
+
+export type BackendPreference = ModelBackend | 'auto';
+
+const BACKEND_PREFERENCE_KEY = 'model-backend-preference';
+
+export interface ModelStatus {
+  modelId: string;
+  state: ModelLoadState;
+  error?: string;
+  // Undefined until the local model directory has been checked
+  installedLocally?: boolean;
+  // Backend the loaded model actually runs on
+  backend?: ModelBackend;
+}
+
+type SegmentationPipeline = Awaited<ReturnType<typeof pipeline<'image-segmentation'>>>;
+
+const pipelines = new Map<string, Promise<SegmentationPipeline>>();
+const localChecks = new Map<string, Promise<boolean>>();
+const inferenceQueues = new Map<string, Promise<unknown>>();
+const listeners = new Set<() => void>();
+let statuses: Record<string, ModelStatus> = {};
+// env is global, so loads run one at a time while it is set up for each model
+let loadQueue: Promise<unknown> = Promise.resolve();
+let backendPreference: BackendPreference =
+  (localStorage.getItem(BACKEND_PREFERENCE_KEY) as BackendPreference | null) ?? 'auto';
+
+const updateModelStatus = (modelId: string, update: Partial<ModelStatus>) => {
+  statuses = { ...statuses, [modelId]: { ...getModelStatus(modelId), ...update } };
+  listeners.forEach(listener => listener());
+};
+
+const setModelStatus = (modelId: string, state: ModelLoadState, error?: string) => {
+  updateModelStatus(modelId, { state, error });
+};
+
+export const isModelInstalledLocally = (modelId: string): Promise<boolean> => {
+  const cached = localChecks.get(modelId);
+  if (cached) return cached;
+
+  const check = (async () => {
+    try {
+      const response = await fetch(`${LOCAL_MODEL_PATH}${modelId}/config.json`, {
+        headers: { 'Accept': 'application/json' }
+      });
+
+      if (!response.ok) return false;
+
+      // Dev servers answer unknown paths with index.html, so make sure this is real JSON
+      await response.json();
+      return true;
+    } catch {
+      return false;
+    }
+  })();
+
+  localChecks.set(modelId, check);
+  check.then(installedLocally => updateModelStatus(modelId, { installedLocally }));
+  return check;
+};
+
+export const detectLocalModels = async (): Promise<void> => {
+  await Promise.all(SEGMENTATION_MODELS.map(isModelInstalledLocally));
+};
+
+const createSegmenter = async (modelId: string) => {
+  const installedLocally = await isModelInstalledLocally(modelId);
+
+  if (!installedLocally && OFFLINE_MODE) {
+    throw new Error(`${modelId} is not installed in ${LOCAL_MODEL_PATH} and offline mode is enabled`);
+  }
+
+  // Only look locally for models that are actually there, otherwise a dev server's
+  // HTML fallback would be parsed as model files
+  env.allowLocalModels = installedLocally;
+  console.log(`Loading ${modelId} from ${installedLocally ? LOCAL_MODEL_PATH : 'the Hugging Face hub'}`);
+
+  const backends = backendPreference === 'auto'
+    ? getBackendFallbackChain(await detectBackendSupport())
+    : [backendPreference];
+  let lastError: unknown = null;
+
+  for (const backend of backends) {
+    try {
+      env.backends.onnx.wasm.numThreads = backend === 'wasm-threaded' ? Math.min(4, navigator.hardwareConcurrency || 1) : 1;
+
+      const segmenter = await pipeline('image-segmentation', modelId, {
+        device: backend === 'webgpu' ? 'webgpu' : 'wasm',
+        local_files_only: installedLocally,
+      });
+
+      updateModelStatus(modelId, { backend });
+      return segmenter;
+    } catch (error) {
+      console.warn(`Could not load ${modelId} on ${backendLabels[backend]}:`, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+};
+
+// Aborting only stops waiting; the shared load keeps going for the next caller
+export const loadSegmentationModel = (modelId: string, signal?: AbortSignal): Promise<SegmentationPipeline> => {
+  const cached = pipelines.get(modelId);
+  if (cached) return raceWithAbort(cached, signal);
+
+  console.log(`Loading segmentation model ${modelId}...`);
+  setModelStatus(modelId, 'loading');
+
+  const loading = loadQueue.then(() => createSegmenter(modelId));
+  loadQueue = loading.catch(() => undefined);
+  pipelines.set(modelId, loading);
+
+  loading.then(
+    (segmenter) => {
+      if (pipelines.get(modelId) === loading) {
+        console.log(`Segmentation model ${modelId} is ready`);
+        setModelStatus(modelId, 'ready');
+      } else {
+        // Unloaded while it was still loading
+        segmenter.dispose();
+      }
+    },
+    (error) => {
+      if (pipelines.get(modelId) === loading) {
+        pipelines.delete(modelId);
+        setModelStatus(modelId, 'error', error instanceof Error ? error.message : String(error));
+      }
+    }
+  );
+
+  return raceWithAbort(loading, signal);
+};
+
+// The segmentation models take RGB, so the alpha channel is dropped
+const toRawImage = ({ width, height, data }: PixelBuffer): RawImage => {
+  const rgb = new Uint8ClampedArray(width * height * 3);
+  for (let index = 0; index < width * height; index++) {
+    rgb[index * 3] = data[index * 4];
+    rgb[index * 3 + 1] = data[index * 4 + 1];
+    rgb[index * 3 + 2] = data[index * 4 + 2];
+  }
+  return new RawImage(rgb, width, height, 3);
+};
+
+export const segmentImage = async (modelId: string, pixels: PixelBuffer, signal?: AbortSignal) => {
+  const segmenter = await loadSegmentationModel(modelId, signal);
+  const image = toRawImage(pixels);
+  // A pipeline's ONNX session cannot run overlapping inferences, so calls are queued per model
+  const previous = inferenceQueues.get(modelId) ?? Promise.resolve();
+  const inference = previous.then(() => {
+    // Skip inferences that were cancelled while waiting in the queue
+    throwIfAborted(signal);
+    return segmenter(image);
+  });
+
+  inferenceQueues.set(modelId, inference.catch(() => undefined));
+  return await raceWithAbort(inference, signal);
+};
+
+export const unloadModel = async (modelId: string): Promise<void> => {
+  const loading = pipelines.get(modelId);
+  if (!loading) return;
+
+  pipelines.delete(modelId);
+  updateModelStatus(modelId, { state: 'idle', error: undefined, backend: undefined });
+
+  try {
+    const segmenter = await loading;
+    await segmenter.dispose();
+    console.log(`Unloaded segmentation model ${modelId}`);
+  } catch (error) {
+    console.warn(`Failed to dispose model ${modelId}:`, error);
+  }
+};
+
+export const unloadAllModels = async (): Promise<void> => {
+  await Promise.all(Array.from(pipelines.keys()).map(unloadModel));
+};
+
+export const getBackendPreference = (): BackendPreference => {
+  return backendPreference;
+};
+
+// Models already loaded stay on their old backend, so they are unloaded and reload on next use
+export const setBackendPreference = async (preference: BackendPreference): Promise<void> => {
+  backendPreference = preference;
+  localStorage.setItem(BACKEND_PREFERENCE_KEY, preference);
+  listeners.forEach(listener => listener());
+  await unloadAllModels();
+};
+
+export const getModelStatus = (modelId: string): ModelStatus => {
+  return statuses[modelId] ?? { modelId, state: 'idle' };
+};
+
+export const getModelStatuses = (): Record<string, ModelStatus> => {
+  return statuses;
+};
+
+export const subscribeToModelStatus = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
@@ -0,0 +1,64 @@
+// Plain RGBA pixel buffers, the currency of the algorithm core.
+// ImageData already has this shape, so browser code can pass it in as is, while Node,
+// workers and tests can use plain objects without any DOM.
+
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel, row by row
+  data: Uint8ClampedArray;
+}
+
+export const createPixelBuffer = (
+  width: number,
+  height: number,
+  data: Uint8ClampedArray = new Uint8ClampedArray(width * height * 4)
+): PixelBuffer => {
+  if (data.length !== width * height * 4) {
+    throw new Error(`Pixel data has ${data.length} bytes, expected ${width * height * 4} for ${width}x${height}`);
+  }
+
+  return { width, height, data };
+};
+
+// The alpha channel on its own, one byte per pixel
+export const extractAlpha = (buffer: PixelBuffer): Uint8ClampedArray => {
+  const alpha = new Uint8ClampedArray(buffer.width * buffer.height);
+  for (let index = 0; index < alpha.length; index++) alpha[index] = buffer.data[index * 4 + 3];
+  return alpha;
+};
+
+// Shrinks so neither side exceeds maxDimension, averaging the source pixels under each target pixel
+export const downscalePixelBuffer = (buffer: PixelBuffer, maxDimension: number): PixelBuffer => {
+  const { width, height, data } = buffer;
+  const scale = Math.min(1, maxDimension / width, maxDimension / height);
+  if (scale === 1) return buffer;
+
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+  const output = createPixelBuffer(targetWidth, targetHeight);
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * height) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * width) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth));
+      const sums = [0, 0, 0, 0];
+
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          for (let c = 0; c < 4; c++) sums[c] += data[i + c];
+        }
+      }
+
+      const count = (x1 - x0) * (y1 - y0);
+      const o = (ty * targetWidth + tx) * 4;
+      for (let c = 0; c < 4; c++) output.data[o + c] = Math.round(sums[c] / count);
+    }
+  }
+
+  return output;
+};
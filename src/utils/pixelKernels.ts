@@ -0,0 +1,29 @@
+// Pixel kernels of the built-in algorithms that the worker pool can run.
+// Only pure modules may be imported here, since this file is bundled into the worker.
+// The worker applies the post-processing stages after every kernel.
+import { removeIconBackground } from './iconBackgroundRemoval';
+import { gimpBackgroundRemoval } from './gimpAlgorithm';
+import { colorToAlphaBackgroundRemoval } from './colorToAlphaAlgorithm';
+import { gradientBackgroundRemoval } from './gradientAlgorithm';
+import { inkscapeBackgroundRemoval } from './inkscapeAlgorithm';
+import { checkerboardBackgroundRemoval } from './checkerboardAlgorithm';
+import type { PixelBuffer } from './pixelBuffer';
+
+export type PixelKernel = (imageData: PixelBuffer, options: object, signal?: AbortSignal) => PixelBuffer;
+
+// Leaves the pixels untouched, for running only the post-processing stages on a model's output
+export const POST_PROCESSING_KERNEL = 'post-processing';
+
+const kernels = new Map<string, PixelKernel>([
+  ['icon', removeIconBackground],
+  ['gimp', gimpBackgroundRemoval],
+  ['color-to-alpha', colorToAlphaBackgroundRemoval],
+  ['gradient', gradientBackgroundRemoval],
+  ['inkscape', inkscapeBackgroundRemoval],
+  ['checkerboard', checkerboardBackgroundRemoval],
+  [POST_PROCESSING_KERNEL, (imageData) => imageData]
+]);
+
+export const getPixelKernel = (algorithm: string): PixelKernel | undefined => {
+  return kernels.get(algorithm);
+};
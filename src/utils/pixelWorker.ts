@@ -0,0 +1,42 @@
+// Web Worker that runs pixel kernels off the main thread
+import { getPixelKernel } from './pixelKernels';
+import { runKernelWithPostProcessing } from './removalCore';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+import type { PixelJobRequest, PixelJobResponse } from './workerPool';
+
+const encodePng = async (image: PixelBuffer): Promise<ArrayBuffer | undefined> => {
+  if (typeof OffscreenCanvas === 'undefined') return undefined;
+  
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  
+  if (!ctx) return undefined;
+  
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return await blob.arrayBuffer();
+};
+
+self.onmessage = async (event: MessageEvent<PixelJobRequest>) => {
+  const { jobId, algorithm, width, height, buffer, originalBuffer, options } = event.data;
+  
+  try {
+    const kernel = getPixelKernel(algorithm);
+    
+    if (!kernel) {
+      throw new Error(`No pixel kernel available for ${algorithm} algorithm`);
+    }
+    
+    const input = createPixelBuffer(width, height, new Uint8ClampedArray(buffer));
+    const original = originalBuffer ? createPixelBuffer(width, height, new Uint8ClampedArray(originalBuffer)) : input;
+    const output = runKernelWithPostProcessing(kernel, input, options, undefined, original);
+    const png = await encodePng(output);
+    
+    const response: PixelJobResponse = { jobId, width, height, buffer: output.data.buffer, png };
+    const transfer = png ? [output.data.buffer, png] : [output.data.buffer];
+    self.postMessage(response, { transfer });
+  } catch (error) {
+    const response: PixelJobResponse = { jobId, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
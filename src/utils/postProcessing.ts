@@ -0,0 +1,80 @@
+// Optional stages applied to the output of any registered algorithm.
+// Their settings live in the same options object as the algorithm's own, so the
+// settings panel and re-runs handle them without extra plumbing; they are split
+// off before the algorithm sees its options.
+import type { AlgorithmOptionSchema } from './algorithmRegistry';
+import { refineAlphaWithGuidedFilter } from './guidedFilter';
+import { decontaminateEdges } from './defringe';
+import type { PixelBuffer } from './pixelBuffer';
+
+export interface PostProcessingOptions {
+  refineAlpha: boolean;
+  refineRadius: number;
+  refineEpsilon: number;
+  defringe: boolean;
+}
+
+export const DEFAULT_POST_PROCESSING_OPTIONS: PostProcessingOptions = {
+  refineAlpha: false,
+  refineRadius: 4,
+  refineEpsilon: 0.001,
+  defringe: false
+};
+
+export const postProcessingSchema: AlgorithmOptionSchema[] = [
+  {
+    key: 'refineAlpha',
+    label: 'Guided filter refinement',
+    type: 'boolean',
+    description: 'Snap alpha edges to the original image, for thin strokes and anti-aliased outlines'
+  },
+  { key: 'refineRadius', label: 'Refinement radius', type: 'number', min: 1, max: 16, step: 1 },
+  { key: 'refineEpsilon', label: 'Refinement smoothness', type: 'number', min: 0.0001, max: 0.01, step: 0.0001 },
+  {
+    key: 'defringe',
+    label: 'Remove edge halos',
+    type: 'boolean',
+    description: 'Strip the old background colour from semi-transparent edge pixels'
+  }
+];
+
+const postProcessingKeys = Object.keys(DEFAULT_POST_PROCESSING_OPTIONS) as (keyof PostProcessingOptions)[];
+
+export const splitPostProcessingOptions = (options: object) => {
+  const algorithmOptions: Record<string, unknown> = { ...options };
+  const postProcessing: Record<string, unknown> = { ...DEFAULT_POST_PROCESSING_OPTIONS };
+
+  for (const key of postProcessingKeys) {
+    if (key in algorithmOptions) {
+      postProcessing[key] = algorithmOptions[key];
+      delete algorithmOptions[key];
+    }
+  }
+
+  return { algorithmOptions, postProcessing: postProcessing as unknown as PostProcessingOptions };
+};
+
+export const hasPostProcessing = (options: PostProcessingOptions): boolean => {
+  return options.refineAlpha || options.defringe;
+};
+
+// original is the algorithm's input, which guides the alpha refinement
+export const applyPostProcessing = (
+  imageData: PixelBuffer,
+  original: PixelBuffer,
+  options: PostProcessingOptions,
+  signal?: AbortSignal
+): PixelBuffer => {
+  let output = imageData;
+
+  if (options.refineAlpha) {
+    output = refineAlphaWithGuidedFilter(output, original, { radius: options.refineRadius, epsilon: options.refineEpsilon }, signal);
+  }
+
+  // Runs last so it sees the final alpha
+  if (options.defringe) {
+    output = decontaminateEdges(output, {}, signal);
+  }
+
+  return output;
+};
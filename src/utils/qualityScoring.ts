@@ -0,0 +1,164 @@
+// Reference-free quality scoring of a background removal result.
+// Without a ground truth mask, each measure looks for a typical failure instead:
+// blurry edges, leftover background, speckles, a fragmented subject and colour halos.
+// Every metric is 0-1 with higher being better.
+import { throwIfAborted } from './abort';
+import { backgroundDistance, BackgroundCluster } from './backgroundEstimation';
+import type { PixelBuffer } from './pixelBuffer';
+
+export interface QualityMetrics {
+  edgeSharpness: number;
+  backgroundResidue: number;
+  alphaNoise: number;
+  connectivity: number;
+  halo: number;
+  coverage: number;
+}
+
+export interface QualityScore {
+  // Weighted mean of the metrics times the coverage, 0-100
+  overall: number;
+  metrics: QualityMetrics;
+}
+
+export const qualityMetricInfo: Record<keyof QualityMetrics, { label: string; description: string; weight: number }> = {
+  edgeSharpness: { label: 'Edge sharpness', description: 'Width of the soft band around the subject', weight: 1 },
+  backgroundResidue: { label: 'Background removed', description: 'Visible pixels that still have the background colour', weight: 1.5 },
+  alphaNoise: { label: 'Clean alpha', description: 'Isolated speckles and pinholes in the mask', weight: 1 },
+  connectivity: { label: 'Connected subject', description: 'Share of the visible area in the largest piece', weight: 1 },
+  halo: { label: 'No halo', description: 'Background colour left along the outline', weight: 1 },
+  // Scales the whole score instead of being averaged in
+  coverage: { label: 'Plausible coverage', description: 'Results that removed nearly everything or nothing score zero', weight: 0 }
+};
+
+const VISIBLE = 0.5;
+// Background distance below which a colour counts as background
+const RESIDUE_DISTANCE = 20;
+const HALO_DISTANCE = 60;
+
+export const scoreResult = (
+  original: PixelBuffer,
+  result: PixelBuffer,
+  background: BackgroundCluster[],
+  signal?: AbortSignal
+): QualityScore => {
+  const { data, width, height } = original;
+  const pixelCount = width * height;
+  const alpha = new Float32Array(pixelCount);
+  for (let index = 0; index < pixelCount; index++) alpha[index] = result.data[index * 4 + 3] / 255;
+
+  const visible = (index: number) => alpha[index] > VISIBLE;
+  let visibleCount = 0;
+  let partialCount = 0;
+  let outlineCount = 0;
+  let residueCount = 0;
+  let isolatedCount = 0;
+  let haloSum = 0;
+  let haloWeight = 0;
+
+  for (let y = 0; y < height; y++) {
+    throwIfAborted(signal);
+
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const a = alpha[index];
+      if (a > 0.05 && a < 0.95) partialCount++;
+      if (!visible(index)) continue;
+
+      visibleCount++;
+      const i = index * 4;
+      const distance = backgroundDistance(data[i], data[i + 1], data[i + 2], background);
+      if (distance < RESIDUE_DISTANCE) residueCount++;
+
+      // Neighbours on the other side of the visibility threshold
+      let differing = 0;
+      let neighbours = 0;
+      let onOutline = false;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          neighbours++;
+          if (!visible(ny * width + nx)) {
+            differing++;
+            if (dx === 0 || dy === 0) onOutline = true;
+          }
+        }
+      }
+
+      if (neighbours > 0 && differing >= neighbours - 1) isolatedCount++;
+      if (onOutline) {
+        outlineCount++;
+        haloSum += a * Math.max(0, 1 - distance / HALO_DISTANCE);
+        haloWeight += a;
+      }
+    }
+  }
+
+  // Isolated hidden pixels inside the subject count as noise too
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      if (visible(index)) continue;
+      let visibleNeighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx !== 0 || dy !== 0) && visible(index + dy * width + dx)) visibleNeighbours++;
+        }
+      }
+      if (visibleNeighbours >= 7) isolatedCount++;
+    }
+  }
+
+  throwIfAborted(signal);
+
+  // Largest 4-connected visible component
+  const labels = new Uint8Array(pixelCount);
+  let largest = 0;
+  const stack: number[] = [];
+  for (let start = 0; start < pixelCount; start++) {
+    if (labels[start] || !visible(start)) continue;
+
+    let size = 0;
+    labels[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      size++;
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour < 0 || neighbour >= pixelCount || labels[neighbour] || !visible(neighbour)) continue;
+        labels[neighbour] = 1;
+        stack.push(neighbour);
+      }
+    }
+    largest = Math.max(largest, size);
+  }
+
+  const visibleShare = visibleCount / pixelCount;
+  // The soft band is fine up to about two pixels wide
+  const edgeWidth = outlineCount > 0 ? partialCount / outlineCount : 0;
+
+  const metrics: QualityMetrics = {
+    edgeSharpness: visibleCount > 0 ? 1 / (1 + Math.max(0, edgeWidth - 2) / 2) : 0,
+    backgroundResidue: visibleCount > 0 ? 1 - residueCount / visibleCount : 0,
+    alphaNoise: visibleCount > 0 ? Math.max(0, 1 - (isolatedCount / Math.max(1, outlineCount)) * 5) : 0,
+    connectivity: visibleCount > 0 ? largest / visibleCount : 0,
+    halo: haloWeight > 0 ? 1 - haloSum / haloWeight : 1,
+    coverage: Math.min(1, visibleShare / 0.02, (1 - visibleShare) / 0.05)
+  };
+
+  const keys = Object.keys(metrics) as (keyof QualityMetrics)[];
+  const totalWeight = keys.reduce((sum, key) => sum + qualityMetricInfo[key].weight, 0);
+  const weighted = keys.reduce((sum, key) => sum + metrics[key] * qualityMetricInfo[key].weight, 0);
+
+  return { overall: Math.round((weighted / totalWeight) * metrics.coverage * 100), metrics };
+};
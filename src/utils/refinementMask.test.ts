@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyRefinementMask,
+  cloneRefinementMask,
+  createRefinementMask,
+  isRefinementMaskEmpty,
+  paintDab,
+  paintStroke
+} from './refinementMask';
+import { createPixelBuffer } from './pixelBuffer';
+
+const halfTransparent = (width: number, height: number) => {
+  const image = createPixelBuffer(width, height);
+  for (let index = 0; index < width * height; index++) image.data.set([10, 20, 30, 128], index * 4);
+  return image;
+};
+
+describe('painting', () => {
+  it('paints a hard dab and reports the region it touched', () => {
+    const mask = createRefinementMask(10, 10);
+    const region = paintDab(mask, 5, 5, { mode: 'keep', size: 4, hardness: 1 });
+
+    expect(region).toEqual({ x: 3, y: 3, width: 5, height: 5 });
+    expect(mask.data[5 * 10 + 5]).toBe(1);
+    expect(mask.data[0]).toBe(0);
+  });
+
+  it('fades out a soft dab towards its edge', () => {
+    const mask = createRefinementMask(20, 20);
+    paintDab(mask, 10, 10, { mode: 'erase', size: 12, hardness: 0 });
+
+    const centre = mask.data[10 * 20 + 10];
+    const edge = mask.data[10 * 20 + 15];
+    expect(centre).toBeLessThan(edge);
+    expect(edge).toBeLessThan(0);
+  });
+
+  it('returns null for a dab outside the mask', () => {
+    expect(paintDab(createRefinementMask(4, 4), -10, -10, { mode: 'keep', size: 2, hardness: 1 })).toBeNull();
+  });
+
+  it('leaves no gaps along a fast stroke', () => {
+    const mask = createRefinementMask(40, 5);
+    paintStroke(mask, 2, 2.5, 38, 2.5, { mode: 'keep', size: 3, hardness: 1 });
+    for (let x = 4; x < 37; x++) expect(mask.data[2 * 40 + x]).toBe(1);
+  });
+
+  it('clones independently and knows when it is empty', () => {
+    const mask = createRefinementMask(4, 4);
+    const clone = cloneRefinementMask(mask);
+    paintDab(clone, 2, 2, { mode: 'keep', size: 2, hardness: 1 });
+
+    expect(isRefinementMaskEmpty(mask)).toBe(true);
+    expect(isRefinementMaskEmpty(clone)).toBe(false);
+  });
+});
+
+describe('applyRefinementMask', () => {
+  it('keeps, erases or leaves the alpha as painted', () => {
+    const mask = createRefinementMask(3, 1);
+    mask.data.set([1, -1, 0]);
+    const output = applyRefinementMask(halfTransparent(3, 1), mask);
+
+    expect(Array.from(output.data)).toEqual([10, 20, 30, 255, 10, 20, 30, 0, 10, 20, 30, 128]);
+  });
+
+  it('rejects masks of another size', () => {
+    expect(() => applyRefinementMask(halfTransparent(3, 1), createRefinementMask(2, 1))).toThrow();
+  });
+});
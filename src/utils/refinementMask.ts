@@ -0,0 +1,141 @@
+// Manual keep/erase edits painted on top of an algorithm's result.
+// Edits are kept as a separate layer rather than baked into the pixels, so they can
+// be re-applied when the algorithm runs again with different options.
+//
+// Each pixel holds a value from -1 (fully erased) to 1 (fully kept); 0 leaves the
+// algorithm's alpha untouched and values in between blend towards either end.
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+export interface RefinementMask {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export type BrushMode = 'keep' | 'erase';
+
+export interface BrushOptions {
+  mode: BrushMode;
+  // Diameter in image pixels
+  size: number;
+  // 0 gives a soft falloff over the whole brush, 1 a hard edge
+  hardness: number;
+}
+
+export interface MaskRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const createRefinementMask = (width: number, height: number): RefinementMask => {
+  return { width, height, data: new Float32Array(width * height) };
+};
+
+export const cloneRefinementMask = (mask: RefinementMask): RefinementMask => {
+  return { width: mask.width, height: mask.height, data: mask.data.slice() };
+};
+
+export const isRefinementMaskEmpty = (mask: RefinementMask): boolean => {
+  return mask.data.every(value => value === 0);
+};
+
+// Paints a single round dab and returns the region it touched
+export const paintDab = (mask: RefinementMask, centerX: number, centerY: number, brush: BrushOptions): MaskRegion | null => {
+  const radius = Math.max(0.5, brush.size / 2);
+  const solidRadius = radius * Math.min(1, Math.max(0, brush.hardness));
+  const left = Math.max(0, Math.floor(centerX - radius));
+  const top = Math.max(0, Math.floor(centerY - radius));
+  const right = Math.min(mask.width - 1, Math.ceil(centerX + radius));
+  const bottom = Math.min(mask.height - 1, Math.ceil(centerY + radius));
+
+  if (left > right || top > bottom) return null;
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      const distance = Math.hypot(x + 0.5 - centerX, y + 0.5 - centerY);
+      if (distance > radius) continue;
+
+      const strength = distance <= solidRadius ? 1 : 1 - (distance - solidRadius) / (radius - solidRadius);
+      const index = y * mask.width + x;
+      const current = mask.data[index];
+
+      mask.data[index] = brush.mode === 'keep'
+        ? current + strength * (1 - current)
+        : current - strength * (1 + current);
+    }
+  }
+
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+// Paints dabs along a line so fast pointer moves leave a continuous stroke
+export const paintStroke = (
+  mask: RefinementMask,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  brush: BrushOptions
+): MaskRegion | null => {
+  const spacing = Math.max(1, brush.size / 4);
+  const steps = Math.max(1, Math.ceil(Math.hypot(toX - fromX, toY - fromY) / spacing));
+  let region: MaskRegion | null = null;
+
+  for (let step = 1; step <= steps; step++) {
+    const t = step / steps;
+    const dab = paintDab(mask, fromX + (toX - fromX) * t, fromY + (toY - fromY) * t, brush);
+    region = mergeRegions(region, dab);
+  }
+
+  return region;
+};
+
+const mergeRegions = (a: MaskRegion | null, b: MaskRegion | null): MaskRegion | null => {
+  if (!a) return b;
+  if (!b) return a;
+
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+};
+
+// Writes source pixels with the edits applied into target, limited to a region
+export const applyRefinementMaskToRegion = (
+  source: PixelBuffer,
+  mask: RefinementMask,
+  target: PixelBuffer,
+  region: MaskRegion = { x: 0, y: 0, width: source.width, height: source.height }
+): void => {
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const index = y * source.width + x;
+      const idx = index * 4;
+      const edit = mask.data[index];
+      const alpha = source.data[idx + 3];
+
+      target.data[idx] = source.data[idx];
+      target.data[idx + 1] = source.data[idx + 1];
+      target.data[idx + 2] = source.data[idx + 2];
+      target.data[idx + 3] = edit > 0
+        ? alpha + edit * (255 - alpha)
+        : alpha + edit * alpha;
+    }
+  }
+};
+
+export const applyRefinementMask = (imageData: PixelBuffer, mask: RefinementMask): PixelBuffer => {
+  if (mask.width !== imageData.width || mask.height !== imageData.height) {
+    throw new Error('Refinement mask does not match the image size');
+  }
+
+  const output = createPixelBuffer(imageData.width, imageData.height);
+  applyRefinementMaskToRegion(imageData, mask, output);
+  return output;
+};
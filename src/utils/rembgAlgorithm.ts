@@ -1,64 +1,46 @@
 
 // Rembg-inspired algorithm using U²-Net model
-import { pipeline, env } from '@huggingface/transformers';
+import { segmentImage, U2NET_MODEL } from './modelManager';
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import { throwIfAborted } from './abort';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+import { normalizeMask, upsampleMask } from './maskUpsampling';
 
-env.allowLocalModels = false;
-env.useBrowserCache = false;
-
-export const rembgBackgroundRemoval = async (imageElement: HTMLImageElement): Promise<Blob> => {
+export const rembgBackgroundRemoval = async (image: PixelBuffer, signal?: AbortSignal): Promise<PixelBuffer> => {
   try {
+    throwIfAborted(signal);
     console.log('Starting Rembg-style background removal...');
     
     // Use U²-Net inspired model for better edge preservation
-    const segmenter = await pipeline('image-segmentation', 'Xenova/u2net', {
-      device: 'webgpu',
-    });
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) throw new Error('Could not get canvas context');
-    
-    canvas.width = imageElement.naturalWidth;
-    canvas.height = imageElement.naturalHeight;
-    ctx.drawImage(imageElement, 0, 0);
-    
-    const imageData = canvas.toDataURL('image/jpeg', 0.9);
-    const result = await segmenter(imageData);
+    const result = await segmentImage(U2NET_MODEL, image, signal);
     
     if (!result || !Array.isArray(result) || result.length === 0 || !result[0].mask) {
       throw new Error('Invalid segmentation result');
     }
     
-    const outputCanvas = document.createElement('canvas');
-    outputCanvas.width = canvas.width;
-    outputCanvas.height = canvas.height;
-    const outputCtx = outputCanvas.getContext('2d');
-    
-    if (!outputCtx) throw new Error('Could not get output canvas context');
-    
-    outputCtx.drawImage(canvas, 0, 0);
-    
-    const outputImageData = outputCtx.getImageData(0, 0, outputCanvas.width, outputCanvas.height);
-    const data = outputImageData.data;
+    const output = createPixelBuffer(image.width, image.height, new Uint8ClampedArray(image.data));
+    const data = output.data;
+    const mask = upsampleMask(normalizeMask(result[0].mask), image, {}, signal);
     
     // Apply mask with improved edge smoothing
-    for (let i = 0; i < result[0].mask.data.length; i++) {
-      const alpha = Math.round(result[0].mask.data[i] * 255);
+    for (let i = 0; i < mask.length; i++) {
+      const alpha = Math.round(mask[i] * 255);
       data[i * 4 + 3] = alpha;
     }
     
-    outputCtx.putImageData(outputImageData, 0, 0);
-    
-    return new Promise((resolve, reject) => {
-      outputCanvas.toBlob(
-        (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob')),
-        'image/png',
-        1.0
-      );
-    });
+    return output;
   } catch (error) {
     console.error('Rembg algorithm error:', error);
     throw error;
   }
 };
+
+export const rembgAlgorithm: AlgorithmDefinition<Record<string, never>> = {
+  id: 'rembg',
+  name: 'Rembg',
+  description: 'U²-Net based removal',
+  defaultOptions: {},
+  optionsSchema: [],
+  models: [U2NET_MODEL],
+  run: (image, _options, signal) => rembgBackgroundRemoval(image, signal)
+};
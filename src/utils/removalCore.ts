@@ -0,0 +1,58 @@
+// DOM-free core of background removal. Algorithms take and return plain RGBA buffers,
+// so the same code runs in the browser, in workers, in Node and in headless tests.
+// Decoding images, canvases and PNG Blobs are left to the browser adapter in
+// backgroundRemoval.ts.
+import type { AlgorithmDefinition } from './algorithmRegistry';
+import type { PixelKernel } from './pixelKernels';
+import { throwIfAborted } from './abort';
+import { extractAlpha, PixelBuffer } from './pixelBuffer';
+import { applyPostProcessing, splitPostProcessingOptions, DEFAULT_POST_PROCESSING_OPTIONS } from './postProcessing';
+
+export interface RemovalResult {
+  // RGBA output with the alpha applied
+  image: PixelBuffer;
+  // The same alpha as a mask of one byte per pixel
+  alpha: Uint8ClampedArray;
+}
+
+// Defaults of the algorithm and of the post-processing stages, overridden by options
+export const mergeAlgorithmOptions = (definition: AlgorithmDefinition, options: object = {}): Record<string, unknown> => {
+  return { ...DEFAULT_POST_PROCESSING_OPTIONS, ...definition.defaultOptions, ...options };
+};
+
+// Runs a synchronous kernel and then the post-processing stages found in options.
+// The original defaults to the kernel's input; it differs when only post-processing
+// runs on the output of a model.
+export const runKernelWithPostProcessing = (
+  kernel: PixelKernel,
+  image: PixelBuffer,
+  options: object,
+  signal?: AbortSignal,
+  original: PixelBuffer = image
+): PixelBuffer => {
+  const { algorithmOptions, postProcessing } = splitPostProcessingOptions(options);
+  return applyPostProcessing(kernel(image, algorithmOptions, signal), original, postProcessing, signal);
+};
+
+export const removeBackgroundFromPixels = async (
+  image: PixelBuffer,
+  definition: AlgorithmDefinition,
+  options: object = {},
+  signal?: AbortSignal
+): Promise<RemovalResult> => {
+  throwIfAborted(signal);
+
+  const mergedOptions = mergeAlgorithmOptions(definition, options);
+  let output: PixelBuffer;
+
+  if (definition.processPixels) {
+    output = runKernelWithPostProcessing(definition.processPixels, image, mergedOptions, signal);
+  } else if (definition.run) {
+    const { algorithmOptions, postProcessing } = splitPostProcessingOptions(mergedOptions);
+    output = applyPostProcessing(await definition.run(image, algorithmOptions, signal), image, postProcessing, signal);
+  } else {
+    throw new Error(`Algorithm "${definition.id}" must provide run or processPixels`);
+  }
+
+  return { image: output, alpha: extractAlpha(output) };
+};
@@ -0,0 +1,160 @@
+// Naming and packaging of results for download. Files are named after their source
+// image, algorithm and any non-default options, and "download all" writes them into a
+// ZIP together with a manifest.json describing where each one came from.
+import { getAlgorithm } from './algorithmRegistry';
+import { mergeAlgorithmOptions } from './removalCore';
+import { DEFAULT_POST_PROCESSING_OPTIONS } from './postProcessing';
+import { throwIfAborted } from './abort';
+import { createZip } from './zip';
+import type { QualityScore } from './qualityScoring';
+
+export interface ExportSource {
+  filename: string;
+  // Where the image was downloaded from; inline SVGs have no URL of their own
+  url?: string;
+  // The page the image was found on
+  pageUrl?: string;
+  type?: string;
+}
+
+export interface ExportResult {
+  source: ExportSource;
+  algorithm: string;
+  // Options as chosen; the manifest records them merged with the defaults
+  options?: Record<string, unknown>;
+  blob: Blob;
+  quality?: QualityScore;
+  edited?: boolean;
+}
+
+export interface ManifestEntry {
+  file: string;
+  sourceFilename: string;
+  sourceUrl: string | null;
+  pageUrl: string | null;
+  sourceType: string | null;
+  algorithm: string;
+  algorithmName: string;
+  options: Record<string, unknown>;
+  width: number;
+  height: number;
+  bytes: number;
+  sha256: string;
+  qualityScore: number | null;
+  edited: boolean;
+}
+
+export interface ExportManifest {
+  generatedAt: string;
+  files: ManifestEntry[];
+}
+
+const MAX_STEM_LENGTH = 80;
+
+const sanitize = (value: string) => value.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const getFileStem = (filename: string): string => {
+  const stem = sanitize(filename.replace(/\.[^./]+$/, '')).slice(0, MAX_STEM_LENGTH);
+  return stem || 'image';
+};
+
+// Options that differ from the defaults, e.g. "colorTolerance40-defringe-noAntiAlias"
+const describeOptions = (algorithm: string, options: Record<string, unknown> = {}): string => {
+  const definition = getAlgorithm(algorithm);
+  const defaults: Record<string, unknown> = { ...DEFAULT_POST_PROCESSING_OPTIONS, ...definition?.defaultOptions };
+
+  return Object.keys(options)
+    .sort()
+    .filter(key => options[key] !== undefined && options[key] !== defaults[key])
+    .map(key => {
+      const value = options[key];
+      if (key === 'seeds' && Array.isArray(value)) return value.length > 0 ? `seeds${value.length}` : '';
+      if (value === true) return key;
+      if (value === false) return `no${key[0].toUpperCase()}${key.slice(1)}`;
+      return `${key}${sanitize(String(value))}`;
+    })
+    .filter(Boolean)
+    .join('-');
+};
+
+export const getResultFilename = (sourceFilename: string, algorithm: string, options?: Record<string, unknown>): string => {
+  const described = describeOptions(algorithm, options);
+  return `${[getFileStem(sourceFilename), sanitize(algorithm), described].filter(Boolean).join('-')}.png`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+};
+
+// Results are PNGs, whose size sits in the IHDR chunk right after the signature
+const readPngSize = async (bytes: Uint8Array, blob: Blob): Promise<{ width: number; height: number }> => {
+  const isPng = bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+  if (isPng) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  const bitmap = await createImageBitmap(blob);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+const sha256 = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Later results that would get the same name get a counter instead
+const uniqueName = (name: string, used: Set<string>) => {
+  let unique = name;
+  for (let counter = 2; used.has(unique); counter++) unique = name.replace(/\.png$/, `-${counter}.png`);
+  used.add(unique);
+  return unique;
+};
+
+export const createResultsArchive = async (results: ExportResult[], signal?: AbortSignal): Promise<Blob> => {
+  const used = new Set<string>(['manifest.json']);
+  const entries: { name: string; data: Uint8Array }[] = [];
+  const files: ManifestEntry[] = [];
+
+  for (const result of results) {
+    throwIfAborted(signal);
+
+    const data = new Uint8Array(await result.blob.arrayBuffer());
+    const { width, height } = await readPngSize(data, result.blob);
+    const file = uniqueName(getResultFilename(result.source.filename, result.algorithm, result.options), used);
+    const definition = getAlgorithm(result.algorithm);
+
+    entries.push({ name: file, data });
+    files.push({
+      file,
+      sourceFilename: result.source.filename,
+      // Object URLs of inline SVGs mean nothing outside this page
+      sourceUrl: result.source.url && !result.source.url.startsWith('blob:') ? result.source.url : null,
+      pageUrl: result.source.pageUrl ?? null,
+      sourceType: result.source.type ?? null,
+      algorithm: result.algorithm,
+      algorithmName: definition?.name ?? result.algorithm,
+      options: definition ? mergeAlgorithmOptions(definition, result.options) : { ...result.options },
+      width,
+      height,
+      bytes: data.length,
+      sha256: await sha256(data),
+      qualityScore: result.quality?.overall ?? null,
+      edited: result.edited ?? false
+    });
+  }
+
+  const manifest: ExportManifest = { generatedAt: new Date().toISOString(), files };
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(`${JSON.stringify(manifest, null, 2)}\n`) });
+
+  return createZip(entries);
+};
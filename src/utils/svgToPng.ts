@@ -1,6 +1,18 @@
 
-export const convertSvgToPng = async (svgElement: HTMLImageElement | string, scale: number = 2): Promise<Blob> => {
+import { createAbortError } from './abort';
+import { releaseCanvas } from './canvasUtils';
+
+export const convertSvgToPng = async (
+  svgElement: HTMLImageElement | string,
+  scale: number = 2,
+  signal?: AbortSignal
+): Promise<Blob> => {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    
     try {
       let svgContent: string;
       
@@ -25,7 +37,10 @@ export const convertSvgToPng = async (svgElement: HTMLImageElement | string, sca
         
         canvas.toBlob(
           (blob) => {
-            if (blob) {
+            releaseCanvas(canvas);
+            if (signal?.aborted) {
+              reject(createAbortError());
+            } else if (blob) {
               resolve(blob);
             } else {
               reject(new Error('Failed to convert SVG to PNG'));
@@ -80,13 +95,25 @@ export const convertSvgToPng = async (svgElement: HTMLImageElement | string, sca
       
       // Create image and draw to canvas
       const img = new Image();
+      const onAbort = () => {
+        img.src = '';
+        URL.revokeObjectURL(url);
+        releaseCanvas(canvas);
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      
       img.onload = () => {
+        signal?.removeEventListener('abort', onAbort);
         ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
         URL.revokeObjectURL(url);
         
         canvas.toBlob(
           (blob) => {
-            if (blob) {
+            releaseCanvas(canvas);
+            if (signal?.aborted) {
+              reject(createAbortError());
+            } else if (blob) {
               resolve(blob);
             } else {
               reject(new Error('Failed to convert SVG to PNG'));
@@ -98,7 +125,9 @@ export const convertSvgToPng = async (svgElement: HTMLImageElement | string, sca
       };
       
       img.onerror = () => {
+        signal?.removeEventListener('abort', onAbort);
         URL.revokeObjectURL(url);
+        releaseCanvas(canvas);
         reject(new Error('Failed to load SVG image'));
       };
       
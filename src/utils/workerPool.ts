@@ -0,0 +1,169 @@
+// Pool of Web Workers running pixel kernels so large images do not block the UI.
+// Pixel buffers are transferred rather than copied in both directions.
+import { createAbortError } from './abort';
+import { createPixelBuffer, PixelBuffer } from './pixelBuffer';
+
+export interface PixelJobRequest {
+  jobId: number;
+  algorithm: string;
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+  // Pixels of the original image when the input is already an algorithm's output
+  originalBuffer?: ArrayBuffer;
+  options: object;
+}
+
+export interface PixelJobResponse {
+  jobId: number;
+  width?: number;
+  height?: number;
+  buffer?: ArrayBuffer;
+  png?: ArrayBuffer;
+  error?: string;
+}
+
+export interface PixelJobResult {
+  image: PixelBuffer;
+  // PNG encoded inside the worker when OffscreenCanvas is available
+  png?: Blob;
+}
+
+interface QueuedJob {
+  request: PixelJobRequest;
+  resolve: (result: PixelJobResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: QueuedJob | null;
+}
+
+const MAX_POOL_SIZE = 4;
+
+let workers: PoolWorker[] = [];
+let queue: QueuedJob[] = [];
+let nextJobId = 1;
+
+const getPoolSize = () => {
+  const cores = navigator.hardwareConcurrency || 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+};
+
+export const isWorkerPoolSupported = (): boolean => {
+  return typeof Worker !== 'undefined';
+};
+
+const createPoolWorker = (): PoolWorker => {
+  const worker = new Worker(new URL('./pixelWorker.ts', import.meta.url), { type: 'module' });
+  const poolWorker: PoolWorker = { worker, job: null };
+
+  worker.onmessage = (event: MessageEvent<PixelJobResponse>) => {
+    const job = poolWorker.job;
+    const { error, width, height, buffer, png } = event.data;
+    poolWorker.job = null;
+
+    if (job) {
+      if (error) {
+        job.reject(new Error(error));
+      } else {
+        job.resolve({
+          image: createPixelBuffer(width, height, new Uint8ClampedArray(buffer)),
+          png: png ? new Blob([png], { type: 'image/png' }) : undefined
+        });
+      }
+    }
+
+    dispatchJobs();
+  };
+
+  worker.onerror = (event) => {
+    console.error('Pixel worker crashed:', event.message);
+    poolWorker.job?.reject(new Error(event.message || 'Pixel worker crashed'));
+
+    // Replace the broken worker on the next dispatch
+    removePoolWorker(poolWorker);
+    dispatchJobs();
+  };
+
+  return poolWorker;
+};
+
+const removePoolWorker = (poolWorker: PoolWorker) => {
+  poolWorker.worker.terminate();
+  workers = workers.filter(w => w !== poolWorker);
+};
+
+// Kernels cannot be interrupted, so a running job is stopped by terminating its worker
+const cancelJob = (job: QueuedJob) => {
+  if (queue.includes(job)) {
+    queue = queue.filter(queued => queued !== job);
+  } else {
+    const poolWorker = workers.find(w => w.job === job);
+    if (poolWorker) removePoolWorker(poolWorker);
+  }
+
+  job.reject(createAbortError());
+  dispatchJobs();
+};
+
+const dispatchJobs = () => {
+  while (queue.length > 0) {
+    let idle = workers.find(w => !w.job);
+
+    if (!idle && workers.length < getPoolSize()) {
+      idle = createPoolWorker();
+      workers.push(idle);
+    }
+
+    if (!idle) return;
+
+    const job = queue.shift()!;
+    idle.job = job;
+    const { buffer, originalBuffer } = job.request;
+    idle.worker.postMessage(job.request, originalBuffer ? [buffer, originalBuffer] : [buffer]);
+  }
+};
+
+export const runInWorkerPool = (
+  algorithm: string,
+  image: PixelBuffer,
+  options: object,
+  signal?: AbortSignal,
+  original?: PixelBuffer
+): Promise<PixelJobResult> => {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    // Copy the pixels so transferring them does not detach the caller's buffer
+    const buffer = image.data.slice().buffer;
+    const originalBuffer = original?.data.slice().buffer;
+    const onAbort = () => cancelJob(job);
+    const job: QueuedJob = {
+      request: { jobId: nextJobId++, algorithm, width: image.width, height: image.height, buffer, originalBuffer, options },
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(job);
+    dispatchJobs();
+  });
+};
+
+export const terminateWorkerPool = (): void => {
+  const pending = [...queue, ...workers.map(w => w.job).filter(Boolean)];
+
+  workers.forEach(w => w.worker.terminate());
+  workers = [];
+  queue = [];
+
+  pending.forEach(job => job.reject(new Error('Worker pool terminated')));
+};
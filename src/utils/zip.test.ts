@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32 } from './zip';
+
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: { name: string; crc: number; data: Uint8Array; flags: number }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const flags = view.getUint16(offset + 8, true);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    entries.push({ name, crc, flags, data: bytes.subarray(dataStart, dataStart + size) });
+    offset += 46 + nameLength;
+  }
+
+  return entries;
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('is zero for no data', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry so it can be read back', async () => {
+    const first = new TextEncoder().encode('hello');
+    const second = new Uint8Array([0, 1, 2, 255]);
+    const blob = createZip([
+      { name: 'hello.txt', data: first },
+      { name: 'ünïcode/data.bin', data: second }
+    ]);
+
+    expect(blob.type).toBe('application/zip');
+    const entries = await readZip(blob);
+    expect(entries.map(entry => entry.name)).toEqual(['hello.txt', 'ünïcode/data.bin']);
+    expect(Array.from(entries[0].data)).toEqual(Array.from(first));
+    expect(Array.from(entries[1].data)).toEqual(Array.from(second));
+    expect(entries[1].crc).toBe(crc32(second));
+    expect(entries.every(entry => entry.flags & 0x0800)).toBe(true);
+  });
+
+  it('writes an empty archive', async () => {
+    const blob = createZip([]);
+    expect(blob.size).toBe(22);
+    expect(await readZip(blob)).toEqual([]);
+  });
+});
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LOCAL_MODEL_PATH?: string;
+  readonly VITE_OFFLINE_MODE?: string;
+  readonly VITE_ONNX_WASM_PATH?: string;
+}